@@ -0,0 +1,72 @@
+// Verifies Firebase ID tokens on the server without the Admin SDK (which doesn't run on
+// the Edge runtime). Files starting with "_" are not turned into routes by Vercel.
+//
+// A Firebase ID token is an RS256 JWT signed by Google's securetoken service; see
+// https://firebase.google.com/docs/auth/admin/verify-id-tokens#verify_id_tokens_using_a_third-party_jwt_library
+
+const JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+const CLOCK_SKEW_SECONDS = 60;
+
+type Jwk = JsonWebKey & { kid: string };
+
+// Google rotates these keys every few hours and says how long to cache them
+let keyCache: { keys: Map<string, CryptoKey>; expires: number } | null = null;
+
+async function signingKeys(): Promise<Map<string, CryptoKey>> {
+  if (keyCache && keyCache.expires > Date.now()) return keyCache.keys;
+
+  const res = await fetch(JWKS_URL);
+  if (!res.ok) throw new Error(`Could not fetch Firebase signing keys (${res.status})`);
+  const { keys } = (await res.json()) as { keys: Jwk[] };
+
+  const imported = new Map<string, CryptoKey>();
+  for (const jwk of keys) {
+    imported.set(jwk.kid, await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']));
+  }
+  const maxAge = Number(/max-age=(\d+)/.exec(res.headers.get('Cache-Control') ?? '')?.[1] ?? 3600);
+  keyCache = { keys: imported, expires: Date.now() + maxAge * 1000 };
+  return imported;
+}
+
+function base64UrlDecode(part: string): Uint8Array<ArrayBuffer> {
+  const base64 = part.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(part.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+const decodeJson = (part: string) => JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+
+// Returns the Firebase user ID, or null if the token is missing, forged, expired or for another project
+export async function verifyIdToken(token: string): Promise<string | null> {
+  const projectId = process.env.FIREBASE_PROJECT_ID;
+  if (!projectId) throw new Error('FIREBASE_PROJECT_ID is not set on the server!');
+
+  const [headerPart, payloadPart, signaturePart] = token.split('.');
+  if (!headerPart || !payloadPart || !signaturePart) return null;
+
+  try {
+    const header = decodeJson(headerPart);
+    const payload = decodeJson(payloadPart);
+    if (header.alg !== 'RS256' || typeof header.kid !== 'string') return null;
+
+    const key = (await signingKeys()).get(header.kid);
+    if (!key) return null;
+    const signed = new TextEncoder().encode(`${headerPart}.${payloadPart}`);
+    const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, base64UrlDecode(signaturePart), signed);
+    if (!valid) return null;
+
+    const now = Math.floor(Date.now() / 1000);
+    if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) return null;
+    if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) return null;
+    if (typeof payload.iat !== 'number' || payload.iat - CLOCK_SKEW_SECONDS > now) return null;
+    if (typeof payload.sub !== 'string' || !payload.sub) return null;
+    return payload.sub;
+  } catch (e) {
+    console.warn('Rejected malformed ID token:', e);
+    return null;
+  }
+}
+
+export function bearerToken(request: Request): string | null {
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.get('Authorization') ?? '');
+  return match ? match[1] : null;
+}
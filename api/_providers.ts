@@ -0,0 +1,169 @@
+// Model providers for /api/generate and /api/models.
+// Files starting with "_" are not turned into routes by Vercel, so this is shared code only.
+//
+// Every provider streams plain text deltas of the model's answer; generate.ts doesn't need
+// to know which API is behind a model. Which models can be used at all is decided here,
+// on the server, never by the frontend.
+
+export type ProviderName = 'openrouter' | 'gemini' | 'local';
+
+export type ModelEntry = {
+  id: string; // what the frontend sends, e.g. "openrouter:google/gemini-2.0-flash-thinking-exp"
+  label: string; // shown in the model picker
+  provider: ProviderName;
+  model: string; // the provider's own model name
+};
+
+export type CompletionRequest = {
+  model: string;
+  system: string;
+  prompt: string;
+  seed?: number;
+  signal: AbortSignal;
+};
+
+type Provider = {
+  isConfigured: () => boolean;
+  stream: (req: CompletionRequest) => AsyncGenerator<string>;
+};
+
+// The allow-list. Order matters: it is also the fallback order.
+// ALLOWED_MODELS (comma-separated ids) narrows it further per deployment.
+const MODELS: ModelEntry[] = [
+  { id: 'openrouter:google/gemini-2.0-flash-thinking-exp', label: 'Gemini 2.0 Flash Thinking (OpenRouter)', provider: 'openrouter', model: 'google/gemini-2.0-flash-thinking-exp' },
+  { id: 'openrouter:openai/gpt-4o-mini', label: 'GPT-4o mini (OpenRouter)', provider: 'openrouter', model: 'openai/gpt-4o-mini' },
+  { id: 'gemini:gemini-2.0-flash', label: 'Gemini 2.0 Flash (Google)', provider: 'gemini', model: 'gemini-2.0-flash' },
+  { id: 'local:default', label: 'Local model (OpenAI-compatible)', provider: 'local', model: process.env.LOCAL_LLM_MODEL || 'llama3.1' },
+];
+
+export const DEFAULT_MODEL_ID = MODELS[0].id;
+
+// -------------- Streaming helpers --------------
+
+// Yields the `data:` payloads of a server-sent event stream
+async function* sseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      // Blank lines separate events; lines starting with ':' are keep-alive comments
+      if (line.startsWith('data:')) yield line.slice(5).trim();
+    }
+  }
+  if (buffer.startsWith('data:')) yield buffer.slice(5).trim();
+}
+
+async function checkedFetch(url: string, init: RequestInit, providerLabel: string): Promise<ReadableStream<Uint8Array>> {
+  const res = await fetch(url, init);
+  if (!res.ok || !res.body) {
+    const errorBody = await res.text().catch(() => '');
+    console.error(`${providerLabel} API Error:`, errorBody);
+    throw new Error(`${providerLabel} responded ${res.status} ${res.statusText}`);
+  }
+  return res.body;
+}
+
+// OpenRouter, OpenAI, Ollama, llama.cpp and vLLM all speak this dialect
+async function* openAICompatible(baseUrl: string, headers: Record<string, string>, req: CompletionRequest, providerLabel: string) {
+  const body = await checkedFetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({
+      model: req.model,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: req.system },
+        { role: 'user', content: req.prompt },
+      ],
+      seed: req.seed,
+      stream: true,
+    }),
+    signal: req.signal,
+  }, providerLabel);
+
+  for await (const data of sseData(body)) {
+    if (data === '[DONE]') return;
+    const chunk = JSON.parse(data);
+    if (chunk.error) throw new Error(chunk.error.message || `${providerLabel} error`);
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) yield delta as string;
+  }
+}
+
+// -------------- Providers --------------
+
+const providers: Record<ProviderName, Provider> = {
+  openrouter: {
+    isConfigured: () => Boolean(process.env.OPENROUTER_API_KEY),
+    stream: (req) =>
+      openAICompatible('https://openrouter.ai/api/v1', {
+        // Here is where we securely add the API key
+        'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
+        'HTTP-Referer': 'https://qpaper-forge.com', // Set your future site URL
+        'X-Title': 'QPaper Forge', // Set your site name
+      }, req, 'OpenRouter'),
+  },
+
+  gemini: {
+    isConfigured: () => Boolean(process.env.GEMINI_API_KEY),
+    async *stream(req) {
+      const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(req.model)}:streamGenerateContent?alt=sse`;
+      const body = await checkedFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': process.env.GEMINI_API_KEY! },
+        body: JSON.stringify({
+          systemInstruction: { parts: [{ text: req.system }] },
+          contents: [{ role: 'user', parts: [{ text: req.prompt }] }],
+          generationConfig: { responseMimeType: 'application/json', seed: req.seed },
+        }),
+        signal: req.signal,
+      }, 'Gemini');
+
+      for await (const data of sseData(body)) {
+        const chunk = JSON.parse(data);
+        if (chunk.error) throw new Error(chunk.error.message || 'Gemini error');
+        const parts: Array<{ text?: string }> = chunk.candidates?.[0]?.content?.parts ?? [];
+        for (const part of parts) if (part.text) yield part.text;
+      }
+    },
+  },
+
+  // e.g. LOCAL_LLM_BASE_URL=http://localhost:11434/v1 for Ollama, http://localhost:8080/v1 for llama.cpp
+  local: {
+    isConfigured: () => Boolean(process.env.LOCAL_LLM_BASE_URL),
+    stream: (req) =>
+      openAICompatible(
+        process.env.LOCAL_LLM_BASE_URL!.replace(/\/$/, ''),
+        process.env.LOCAL_LLM_API_KEY ? { 'Authorization': `Bearer ${process.env.LOCAL_LLM_API_KEY}` } : {},
+        req,
+        'Local model',
+      ),
+  },
+};
+
+// -------------- Allow-list --------------
+
+// Models that are both allowed for this deployment and have credentials configured
+export function availableModels(): ModelEntry[] {
+  const allowed = process.env.ALLOWED_MODELS?.split(',').map((s) => s.trim()).filter(Boolean);
+  return MODELS.filter((m) => (!allowed || allowed.includes(m.id)) && providers[m.provider].isConfigured());
+}
+
+export function findModel(id: string): ModelEntry | undefined {
+  return availableModels().find((m) => m.id === id);
+}
+
+// The requested model first, then every other available model in allow-list order
+export function fallbackChain(first: ModelEntry): ModelEntry[] {
+  return [first, ...availableModels().filter((m) => m.id !== first.id)];
+}
+
+export function streamCompletion(entry: ModelEntry, req: Omit<CompletionRequest, 'model'>): AsyncGenerator<string> {
+  return providers[entry.provider].stream({ ...req, model: entry.model });
+}
@@ -0,0 +1,138 @@
+// Server-side quotas for /api/generate. Files starting with "_" are not turned into routes by Vercel.
+//
+// Fixed-window counters per Firebase user and per client IP. Counters live in Upstash Redis
+// (REST API, works on the Edge runtime) when UPSTASH_REDIS_REST_URL/TOKEN are set. Without
+// it they fall back to this instance's memory, which is fine for local development only:
+// every serverless instance would count separately.
+
+export type Bucket = 'user' | 'ip' | 'import';
+
+export type QuotaStatus = {
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch seconds when the window ends
+};
+
+const envNumber = (name: string, fallback: number) => {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+// Every model call counts, including repair passes and single-question replacements.
+// Imports send free text to the model, so they also count against a smaller limit of their own.
+export const LIMITS: Record<Bucket, { limit: number; windowSeconds: number }> = {
+  user: { limit: envNumber('QUOTA_USER_DAILY', 50), windowSeconds: 24 * 60 * 60 },
+  ip: { limit: envNumber('QUOTA_IP_HOURLY', 60), windowSeconds: 60 * 60 },
+  import: { limit: envNumber('QUOTA_IMPORT_DAILY', 10), windowSeconds: 24 * 60 * 60 },
+};
+
+// -------------- Stores --------------
+
+type Store = {
+  increment: (key: string, ttlSeconds: number) => Promise<number>;
+  get: (key: string) => Promise<number>;
+};
+
+function upstashStore(url: string, token: string): Store {
+  const call = async (body: unknown, path = '') => {
+    const res = await fetch(`${url.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw new Error(`Upstash responded ${res.status}`);
+    return res.json();
+  };
+  return {
+    async increment(key, ttlSeconds) {
+      const [incr] = (await call([['INCR', key], ['EXPIRE', key, ttlSeconds]], '/pipeline')) as Array<{ result: number }>;
+      return incr.result;
+    },
+    async get(key) {
+      const { result } = (await call(['GET', key])) as { result: string | null };
+      return Number(result ?? 0);
+    },
+  };
+}
+
+function memoryStore(): Store {
+  const counters = new Map<string, { count: number; expires: number }>();
+  const live = (key: string) => {
+    const entry = counters.get(key);
+    return entry && entry.expires > Date.now() ? entry : undefined;
+  };
+  return {
+    async increment(key, ttlSeconds) {
+      const entry = live(key) ?? { count: 0, expires: Date.now() + ttlSeconds * 1000 };
+      entry.count += 1;
+      counters.set(key, entry);
+      return entry.count;
+    },
+    async get(key) {
+      return live(key)?.count ?? 0;
+    },
+  };
+}
+
+let store: Store | null = null;
+
+function getStore(): Store {
+  if (store) return store;
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+  if (url && token) {
+    store = upstashStore(url, token);
+  } else {
+    console.warn('UPSTASH_REDIS_REST_URL/TOKEN not set; quotas are kept in memory per instance.');
+    store = memoryStore();
+  }
+  return store;
+}
+
+// -------------- Quotas --------------
+
+function currentWindow(bucket: Bucket, id: string) {
+  const { limit, windowSeconds } = LIMITS[bucket];
+  const now = Math.floor(Date.now() / 1000);
+  const start = now - (now % windowSeconds);
+  return { key: `quota:${bucket}:${id}:${start}`, limit, windowSeconds, resetAt: start + windowSeconds };
+}
+
+const status = (limit: number, used: number, resetAt: number): QuotaStatus => ({
+  limit,
+  remaining: Math.max(0, limit - used),
+  resetAt,
+});
+
+// Counts one call against the bucket; `allowed` is false once the limit is exceeded
+export async function consume(bucket: Bucket, id: string): Promise<{ allowed: boolean; status: QuotaStatus }> {
+  const w = currentWindow(bucket, id);
+  const used = await getStore().increment(w.key, w.windowSeconds);
+  return { allowed: used <= w.limit, status: status(w.limit, used, w.resetAt) };
+}
+
+// Reads the bucket without counting a call
+export async function peek(bucket: Bucket, id: string): Promise<QuotaStatus> {
+  const w = currentWindow(bucket, id);
+  return status(w.limit, await getStore().get(w.key), w.resetAt);
+}
+
+export function quotaHeaders(s: QuotaStatus): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(s.limit),
+    'X-RateLimit-Remaining': String(s.remaining),
+    'X-RateLimit-Reset': String(s.resetAt),
+  };
+}
+
+export function tooManyRequests(s: QuotaStatus, message: string): Response {
+  const retryAfter = Math.max(1, s.resetAt - Math.floor(Date.now() / 1000));
+  return new Response(`Error: ${message}`, {
+    status: 429,
+    headers: { 'Retry-After': String(retryAfter), ...quotaHeaders(s) },
+  });
+}
+
+export function clientIp(request: Request): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+}
@@ -0,0 +1,310 @@
+// Validation for the body of /api/generate. Files starting with "_" are not turned into routes by Vercel.
+//
+// Anything from the browser is untrusted: strings are trimmed and capped, numbers are
+// clamped to sane exam ranges, and papers sent as context (or back for repair) are reduced
+// to the fields the prompts actually use. Only the result of this file ever reaches a prompt.
+import {
+  type BlueprintUnit,
+  type CognitiveLevel,
+  type CognitiveTargets,
+  type Difficulty,
+  type FormState,
+  type GenerationRequest,
+  type PaperJSON,
+  type PaperPattern,
+  type Question,
+  type QuestionType,
+  type SchemaIssue,
+  COGNITIVE_LEVELS,
+  DIFFICULTIES,
+  LANGUAGES,
+  MAX_IMPORT_CHARS,
+  QUESTION_TYPES,
+  parseJSON,
+  unitNameIssues,
+  withUnitTotals,
+} from '../src/schema.ts';
+import { withPatternTotals } from '../src/patterns.ts';
+
+export type Parsed<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const MAX_CONTEXT_QUESTIONS = 120;
+const MAX_CONTEXT_CHARS = 300; // per question; the prompts only need enough to tell questions apart
+const MAX_PREVIOUS_OUTPUT_CHARS = 60000;
+const MAX_OUTPUT_FIELD_CHARS = 2000;
+const MAX_ISSUES = 100;
+const MAX_AVOID = 10;
+const MAX_UNITS = 12;
+const MAX_PER_TYPE = 50;
+const MAX_TOTAL_MARKS = 500;
+const MAX_PATTERN_SECTIONS = 10;
+
+class RequestError extends Error {}
+
+const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(n, b));
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+function text(v: unknown, field: string, maxLength: number, required = true): string {
+  const s = typeof v === 'string' ? v.trim().slice(0, maxLength) : '';
+  if (required && !s) throw new RequestError(`${field} is required`);
+  return s;
+}
+
+function int(v: unknown, field: string, min: number, max: number): number {
+  const n = Number(v);
+  if (!Number.isFinite(n)) throw new RequestError(`${field} must be a number`);
+  return clamp(Math.round(n), min, max);
+}
+
+function oneOf<T extends string>(v: unknown, field: string, allowed: readonly T[]): T {
+  if (!allowed.includes(v as T)) throw new RequestError(`${field} must be one of ${allowed.join(', ')}`);
+  return v as T;
+}
+
+function parseCounts(v: unknown, field: string): Record<QuestionType, number> {
+  if (!isObject(v)) throw new RequestError(`${field} must be an object`);
+  const counts = Object.fromEntries(QUESTION_TYPES.map((t) => [t, int(v[t] ?? 0, `${field}.${t}`, 0, MAX_PER_TYPE)]));
+  return counts as Record<QuestionType, number>;
+}
+
+function parseUnits(v: unknown): BlueprintUnit[] | undefined {
+  if (v === undefined || v === null || (Array.isArray(v) && !v.length)) return undefined;
+  if (!Array.isArray(v)) throw new RequestError('form.units must be an array');
+  const units = v.slice(0, MAX_UNITS).map((u: unknown, i: number) => {
+    if (!isObject(u)) throw new RequestError(`form.units[${i}] must be an object`);
+    const split = isObject(u.difficulty) ? u.difficulty : {};
+    return {
+      name: text(u.name, `form.units[${i}].name`, 120),
+      marks: int(u.marks, `form.units[${i}].marks`, 1, MAX_TOTAL_MARKS),
+      counts: parseCounts(u.counts, `form.units[${i}].counts`),
+      difficulty: Object.fromEntries(DIFFICULTIES.map((d) => [d, int(split[d] ?? 0, `form.units[${i}].difficulty.${d}`, 0, 100)])) as Record<Difficulty, number>,
+    };
+  });
+  // Questions are matched to their unit by name
+  const [clash] = unitNameIssues(units);
+  if (clash) throw new RequestError(`form.units[${clash[0]}].name: ${clash[1]}`);
+  return units;
+}
+
+function parseCognitiveTargets(v: unknown): CognitiveTargets | undefined {
+  if (v === undefined || v === null) return undefined;
+  if (!isObject(v) || !isObject(v.levels)) throw new RequestError('form.cognitiveTargets must be an object with levels');
+  const levels = v.levels;
+  return {
+    levels: Object.fromEntries(COGNITIVE_LEVELS.map((l) => [l, int(levels[l] ?? 0, `form.cognitiveTargets.levels.${l}`, 0, 100)])) as Record<CognitiveLevel, number>,
+    competencyBased: int(v.competencyBased ?? 0, 'form.cognitiveTargets.competencyBased', 0, 100),
+  };
+}
+
+function parsePattern(v: unknown): PaperPattern | undefined {
+  if (v === undefined || v === null) return undefined;
+  if (!isObject(v) || !Array.isArray(v.sections) || !v.sections.length) throw new RequestError('form.pattern must have sections');
+  return {
+    id: text(v.id, 'form.pattern.id', 80, false),
+    name: text(v.name, 'form.pattern.name', 120, false),
+    timeLimitMinutes: int(v.timeLimitMinutes ?? 60, 'form.pattern.timeLimitMinutes', 10, 600),
+    sections: v.sections.slice(0, MAX_PATTERN_SECTIONS).map((sec: unknown, i: number) => {
+      if (!isObject(sec)) throw new RequestError(`form.pattern.sections[${i}] must be an object`);
+      return {
+        title: text(sec.title, `form.pattern.sections[${i}].title`, 120),
+        instructions: text(sec.instructions, `form.pattern.sections[${i}].instructions`, 500, false) || undefined,
+        type: oneOf(sec.type, `form.pattern.sections[${i}].type`, QUESTION_TYPES),
+        count: int(sec.count, `form.pattern.sections[${i}].count`, 1, MAX_PER_TYPE),
+        marks: int(sec.marks, `form.pattern.sections[${i}].marks`, 1, 100),
+      };
+    }),
+  };
+}
+
+// Rejected rather than clamped: cutting the totals down would no longer match the units or
+// pattern they come from
+function checkTotals(form: FormState, source: string) {
+  const over = QUESTION_TYPES.find((t) => form.counts[t] > MAX_PER_TYPE);
+  if (over) throw new RequestError(`${source} ask for ${form.counts[over]} ${over} questions; at most ${MAX_PER_TYPE} are allowed`);
+  if (form.totalMarks > MAX_TOTAL_MARKS) throw new RequestError(`${source} add up to ${form.totalMarks} marks; at most ${MAX_TOTAL_MARKS} are allowed`);
+}
+
+// On a form planned by unit or following a pattern, topic, counts and totalMarks are
+// recomputed from those rather than trusted
+function parseForm(v: unknown): FormState {
+  if (!isObject(v)) throw new RequestError('form must be an object');
+  const pattern = parsePattern(v.pattern);
+  // A pattern fixes the counts, so it can't be combined with units that set their own
+  const units = pattern ? undefined : parseUnits(v.units);
+  const counts = parseCounts(units || pattern ? {} : v.counts, 'form.counts');
+  const language = oneOf(v.language, 'form.language', LANGUAGES);
+  const secondLanguage = v.secondLanguage ? oneOf(v.secondLanguage, 'form.secondLanguage', LANGUAGES) : undefined;
+  const form = withPatternTotals(withUnitTotals({
+    board: text(v.board, 'form.board', 80),
+    grade: text(v.grade, 'form.grade', 80),
+    subject: text(v.subject, 'form.subject', 80),
+    topic: text(v.topic, 'form.topic', 200, !units),
+    timeLimitMinutes: int(v.timeLimitMinutes, 'form.timeLimitMinutes', 10, 600),
+    totalMarks: int(v.totalMarks, 'form.totalMarks', 1, MAX_TOTAL_MARKS),
+    language,
+    // The same language twice is just a monolingual paper
+    secondLanguage: secondLanguage !== language ? secondLanguage : undefined,
+    difficulty: oneOf(v.difficulty, 'form.difficulty', DIFFICULTIES),
+    counts,
+    units,
+    pattern,
+    cognitiveTargets: parseCognitiveTargets(v.cognitiveTargets),
+    extraInstructions: text(v.extraInstructions, 'form.extraInstructions', 1000, false) || undefined,
+  }));
+  if (!Object.values(form.counts).some((n) => n > 0)) throw new RequestError('form.counts must ask for at least one question');
+  // Each unit or pattern section is capped on its own, so their sum can still go past what a
+  // single form may ask for
+  if (units) checkTotals(form, 'form.units');
+  if (pattern) checkTotals(form, 'form.pattern sections');
+  return form;
+}
+
+// Keeps only what the fill/replace prompts read from the paper
+function parseContextPaper(v: unknown): PaperJSON {
+  const sections = isObject(v) && isObject(v.structure) && Array.isArray(v.structure.sections) ? v.structure.sections : null;
+  if (!sections) throw new RequestError('paper.structure.sections must be an array');
+
+  let budget = MAX_CONTEXT_QUESTIONS;
+  return {
+    metadata: { board: '', grade: '', subject: '', topic: '', version: '' },
+    structure: {
+      sections: sections.map((sec: unknown, si: number) => {
+        if (!isObject(sec) || !Array.isArray(sec.questions)) throw new RequestError(`paper section ${si} is malformed`);
+        const questions = sec.questions.slice(0, Math.max(0, budget)).map((q: unknown): Question => {
+          const qo = isObject(q) ? q : {};
+          return {
+            id: text(qo.id, 'question id', 100, false),
+            type: QUESTION_TYPES.includes(qo.type as QuestionType) ? (qo.type as QuestionType) : 'short',
+            text: text(qo.text, 'question text', MAX_CONTEXT_CHARS, false),
+            marks: typeof qo.marks === 'number' && qo.marks > 0 ? clamp(qo.marks, 1, 100) : undefined,
+            difficulty: DIFFICULTIES.includes(qo.difficulty as Difficulty) ? (qo.difficulty as Difficulty) : undefined,
+            unit: text(qo.unit, 'question unit', 120, false) || undefined,
+            cognitiveLevel: COGNITIVE_LEVELS.includes(qo.cognitiveLevel as CognitiveLevel) ? (qo.cognitiveLevel as CognitiveLevel) : undefined,
+            competencyBased: qo.competencyBased === true || undefined,
+          };
+        });
+        budget -= questions.length;
+        return {
+          title: text(sec.title, 'section title', 200, false),
+          instructions: text(sec.instructions, 'section instructions', 500, false) || undefined,
+          questions,
+        };
+      }),
+    },
+  };
+}
+
+function parseAvoid(v: unknown): string[] | undefined {
+  if (v === undefined) return undefined;
+  if (!Array.isArray(v)) throw new RequestError('avoid must be an array');
+  return v.slice(0, MAX_AVOID).map((t: unknown) => text(t, 'avoid', MAX_CONTEXT_CHARS));
+}
+
+// The model's previous answer goes back into the repair prompt, so it is rebuilt from the
+// schema's fields alone: keys the schema doesn't have are dropped, and every value is a
+// capped scalar or a list or object of the expected shape.
+type Shape = 'scalar' | Shape[] | { [key: string]: Shape };
+
+const TRANSLATION_SHAPE: Shape = { text: 'scalar', options: ['scalar'], answer: 'scalar' };
+const QUESTION_SHAPE: Shape = {
+  id: 'scalar',
+  type: 'scalar',
+  text: 'scalar',
+  options: ['scalar'],
+  answer: 'scalar',
+  marks: 'scalar',
+  difficulty: 'scalar',
+  markingScheme: [{ step: 'scalar', marks: 'scalar' }],
+  translation: TRANSLATION_SHAPE,
+  unit: 'scalar',
+  cognitiveLevel: 'scalar',
+  competencyBased: 'scalar',
+};
+const PAPER_SHAPE: Shape = {
+  metadata: { board: 'scalar', grade: 'scalar', subject: 'scalar', topic: 'scalar', timeLimitMinutes: 'scalar', totalMarks: 'scalar', language: 'scalar', secondLanguage: 'scalar' },
+  structure: { sections: [{ title: 'scalar', instructions: 'scalar', questions: [QUESTION_SHAPE] }] },
+};
+
+function reshape(v: unknown, shape: Shape): unknown {
+  const scalar = typeof v === 'string' ? v.slice(0, MAX_OUTPUT_FIELD_CHARS) : typeof v === 'number' || typeof v === 'boolean' || v === null ? v : undefined;
+  if (shape === 'scalar') return scalar;
+  if (Array.isArray(shape)) return Array.isArray(v) ? v.slice(0, MAX_CONTEXT_QUESTIONS).map((x) => reshape(x, shape[0])) : scalar;
+  if (!isObject(v)) return scalar;
+  return Object.fromEntries(Object.keys(shape).filter((k) => k in v).map((k) => [k, reshape(v[k], shape[k])]));
+}
+
+function parsePreviousOutput(v: unknown, original: Exclude<GenerationRequest, { kind: 'repair' }>): string {
+  // Rejected rather than cut short, which would leave invalid JSON
+  if (typeof v === 'string' && v.trim().length > MAX_PREVIOUS_OUTPUT_CHARS) {
+    throw new RequestError(`previousOutput is too large to repair (at most ${MAX_PREVIOUS_OUTPUT_CHARS} characters)`);
+  }
+  const parsed = parseJSON(text(v, 'previousOutput', MAX_PREVIOUS_OUTPUT_CHARS));
+  if (!parsed.ok) throw new RequestError('previousOutput must be JSON');
+  const shape = original.kind === 'fill' || original.kind === 'replace' ? { questions: [QUESTION_SHAPE] } : PAPER_SHAPE;
+  return JSON.stringify(reshape(parsed.value, shape));
+}
+
+// Paths like structure.sections[0].questions[2].options, as validatePaper reports them
+const ISSUE_PATH_RE = /^[\w$.[\]]{1,200}$/;
+
+function parseIssues(v: unknown): SchemaIssue[] {
+  if (!Array.isArray(v)) throw new RequestError('issues must be an array');
+  return v.slice(0, MAX_ISSUES).map((i: unknown) => {
+    const path = isObject(i) && typeof i.path === 'string' ? i.path : '';
+    return { path: ISSUE_PATH_RE.test(path) ? path : '$', message: text(isObject(i) ? i.message : '', 'issue message', 300) };
+  });
+}
+
+function parseRequest(v: unknown, allowRepair: boolean): GenerationRequest {
+  if (!isObject(v)) throw new RequestError('request must be an object');
+
+  switch (v.kind) {
+    case 'paper':
+      return { kind: 'paper', form: parseForm(v.form) };
+
+    case 'fill': {
+      const missing = parseCounts(v.missing, 'missing');
+      if (!Object.values(missing).some((n) => n > 0)) throw new RequestError('missing must ask for at least one question');
+      return { kind: 'fill', form: parseForm(v.form), paper: parseContextPaper(v.paper), missing };
+    }
+
+    case 'replace': {
+      const paper = parseContextPaper(v.paper);
+      const sectionIndex = int(v.sectionIndex, 'sectionIndex', 0, MAX_CONTEXT_QUESTIONS);
+      const questionIndex = int(v.questionIndex, 'questionIndex', 0, MAX_CONTEXT_QUESTIONS);
+      if (!paper.structure.sections[sectionIndex]?.questions[questionIndex]) throw new RequestError('question to replace is out of range');
+      return { kind: 'replace', form: parseForm(v.form), paper, sectionIndex, questionIndex, avoid: parseAvoid(v.avoid) };
+    }
+
+    case 'import':
+      // Rejected rather than cut short, which would silently drop questions
+      if (typeof v.text === 'string' && v.text.trim().length > MAX_IMPORT_CHARS) throw new RequestError(`text must be at most ${MAX_IMPORT_CHARS} characters`);
+      return { kind: 'import', text: text(v.text, 'text', MAX_IMPORT_CHARS) };
+
+    case 'repair': {
+      // One level only: a repair of a repair is just a repair of the original
+      if (!allowRepair) throw new RequestError('repair requests cannot be nested');
+      const original = parseRequest(v.original, false) as Exclude<GenerationRequest, { kind: 'repair' }>;
+      return {
+        kind: 'repair',
+        original,
+        previousOutput: parsePreviousOutput(v.previousOutput, original),
+        issues: parseIssues(v.issues),
+      };
+    }
+
+    default:
+      throw new RequestError(`unknown request kind ${JSON.stringify(v.kind)}`);
+  }
+}
+
+export function parseGenerationRequest(v: unknown): Parsed<GenerationRequest> {
+  try {
+    return { ok: true, value: parseRequest(v, true) };
+  } catch (e) {
+    if (e instanceof RequestError) return { ok: false, error: e.message };
+    throw e;
+  }
+}
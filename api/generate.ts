@@ -1,12 +1,34 @@
 // This is your new backend!
 // Vercel will turn this file into a serverless function at the path /api/generate
 
+import { availableModels, fallbackChain, findModel, streamCompletion } from './_providers.ts';
+import { bearerToken, verifyIdToken } from './_auth.ts';
+import { clientIp, consume, quotaHeaders, tooManyRequests } from './_quota.ts';
+import { PROMPT_VERSION, SYSTEM_PROMPT, buildPrompt } from './_prompt.ts';
+import { parseGenerationRequest } from './_request.ts';
+import { type Checked, type PaperJSON, formatIssues, parsePaper } from '../src/schema.ts';
+
 // This config tells Vercel to run this as an "Edge Function"
 // which is fast and efficient.
 export const config = {
   runtime: 'edge',
 };
 
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// An imported paper has to come back as a valid PaperJSON before any of it is sent: the
+// pasted text is free-form, so the endpoint never returns anything else for it. Metadata
+// the paper didn't state is left for the client to fill in, as withImportMetadata does.
+function checkImported(text: string): Checked<PaperJSON> {
+  return parsePaper(text, (value) => {
+    if (!isObject(value)) return value;
+    const meta = isObject(value.metadata) ? value.metadata : {};
+    const field = (key: string) => (typeof meta[key] === 'string' ? meta[key] : '');
+    return { ...value, metadata: { ...meta, board: field('board'), grade: field('grade'), subject: field('subject'), topic: field('topic'), version: PROMPT_VERSION } };
+  });
+}
+
 // This is the main function that handles requests
 export default async function handler(request: Request) {
   // 1. We only accept POST requests (from our frontend)
@@ -14,7 +36,27 @@ export default async function handler(request: Request) {
     return new Response('Error: Method Not Allowed', { status: 405 });
   }
 
-  // 2. Get the prompt, model, and seed from the frontend's request
+  // 2. Rate limits. Per IP first, before any work is done, then per signed-in user.
+  // The user ID comes from a verified Firebase ID token, never from the request body.
+  const ipQuota = await consume('ip', clientIp(request));
+  if (!ipQuota.allowed) {
+    return tooManyRequests(ipQuota.status, 'Too many requests from this network. Please try again later.');
+  }
+
+  const token = bearerToken(request);
+  let userId: string | null;
+  try {
+    userId = token ? await verifyIdToken(token) : null;
+  } catch (e) {
+    console.error('Could not verify ID token:', e);
+    return new Response('Error: Server configuration error', { status: 500 });
+  }
+  if (!userId) {
+    return new Response('Error: Sign-in required', { status: 401 });
+  }
+
+  // 3. Get the model, seed and generation request from the frontend.
+  // The frontend never sends a prompt: it is built here from the validated request.
   let body;
   try {
     body = await request.json();
@@ -22,71 +64,108 @@ export default async function handler(request: Request) {
     return new Response('Error: Invalid JSON body', { status: 400 });
   }
   
-  const { prompt, model, seed } = body;
+  const { model } = body;
+  const seed = Number.isFinite(body.seed) ? Math.trunc(body.seed) : undefined;
 
-  if (!prompt || !model) {
-    return new Response('Error: Missing prompt or model', { status: 400 });
+  if (!model || !body.request) {
+    return new Response('Error: Missing model or request', { status: 400 });
   }
 
-  // 3. This is the SECURE part.
-  // We get the API key from the server's environment variables.
-  // This key is *NEVER* sent to the frontend.
-  const apiKey = process.env.OPENROUTER_API_KEY;
+  const parsed = parseGenerationRequest(body.request);
+  if (!parsed.ok) {
+    return new Response(`Error: Invalid request: ${parsed.error}`, { status: 400 });
+  }
+  const prompt = buildPrompt(parsed.value);
+  const importing = parsed.value.kind === 'import' || (parsed.value.kind === 'repair' && parsed.value.original.kind === 'import');
 
-  if (!apiKey) {
+  // 4. This is the SECURE part.
+  // Only models on the server's allow-list, with keys configured in the server's
+  // environment variables, can be used. Keys are *NEVER* sent to the frontend.
+  const requested = findModel(model);
+  if (!requested) {
     // This will show up in your Vercel logs, not to the user.
-    console.error('OPENROUTER_API_KEY is not set on the server!');
-    return new Response('Error: Server configuration error', { status: 500 });
+    if (!availableModels().length) console.error('No model provider is configured on the server!');
+    return new Response('Error: Model not allowed', { status: 400 });
   }
 
-  // 4. Prepare the request to OpenRouter
-  // This is the *same* call your frontend used to make, but now
-  // it's happening safely on the server.
-  const openRouterPayload = {
-    model,
-    response_format: { type: "json_object" },
-    messages: [
-      {
-        role: "system",
-        content: "You are an exam paper generator. You must ONLY return a strict JSON object following the requested schema. Do not include markdown or commentary.",
-      },
-      { role: "user", content: prompt },
-    ],
-    seed,
-  };
-
-  try {
-    // 5. Call the OpenRouter API from our backend
-    const apiResponse = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        // Here is where we securely add the API key
-        "Authorization": `Bearer ${apiKey}`,
-        "HTTP-Referer": "https://qpaper-forge.com", // Set your future site URL
-        "X-Title": "QPaper Forge", // Set your site name
-      },
-      body: JSON.stringify(openRouterPayload),
-    });
-
-    // 6. Check if OpenRouter had an error
-    if (!apiResponse.ok) {
-      const errorBody = await apiResponse.text();
-      console.error("OpenRouter API Error:", errorBody);
-      return new Response(`Error from AI API: ${apiResponse.statusText}`, { status: apiResponse.status });
-    }
-
-    // 7. Stream the response from OpenRouter directly back to our frontend.
-    // This is efficient and fast.
-    return new Response(apiResponse.body, {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-  } catch (e: any) {
-    console.error("Internal Server Error:", e);
-    return new Response(`Error: ${e.message || 'Unknown error'}`, { status: 500 });
+  // Counted only once the request is known to be valid
+  const userQuota = await consume('user', userId);
+  if (!userQuota.allowed) {
+    return tooManyRequests(userQuota.status, "You've used today's generation quota.");
   }
-}
\ No newline at end of file
+  if (importing) {
+    const importQuota = await consume('import', userId);
+    if (!importQuota.allowed) return tooManyRequests(importQuota.status, "You've used today's quota for structuring pasted papers.");
+  }
+
+  // 5. Stream the answer back to our frontend as server-sent events
+  // (the prompt version goes in the X-Prompt-Version header):
+  //   event: model / data: {"id","label"}        a model is (re)starting; discard earlier deltas
+  //   data: {"delta":"..."}                      a piece of the model's JSON
+  //   event: error / data: {"message":"..."}     every model failed
+  //   data: [DONE]                               finished with valid JSON
+  // If a provider errors or returns invalid JSON, the next model in the chain takes over.
+  // Imports are sent as a single delta, and only once checkImported accepts them.
+  const encoder = new TextEncoder();
+  const events = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string | null, data: unknown) =>
+        controller.enqueue(encoder.encode(`${event ? `event: ${event}\n` : ''}data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`));
+      const failures: string[] = [];
+
+      for (const entry of fallbackChain(requested)) {
+        // If the teacher cancels, the browser drops the connection and we stop paying for tokens
+        if (request.signal.aborted) break;
+        send('model', { id: entry.id, label: entry.label });
+
+        let text = '';
+        try {
+          for await (const delta of streamCompletion(entry, { system: SYSTEM_PROMPT, prompt, seed, signal: request.signal })) {
+            text += delta;
+            if (!importing) send(null, { delta });
+          }
+        } catch (e) {
+          if (request.signal.aborted) break;
+          console.error(`Model ${entry.id} failed:`, e);
+          failures.push(`${entry.label}: ${(e as Error).message}`);
+          continue;
+        }
+
+        try {
+          JSON.parse(text);
+        } catch {
+          console.error(`Model ${entry.id} returned invalid JSON`);
+          failures.push(`${entry.label}: returned invalid JSON`);
+          continue;
+        }
+
+        if (importing) {
+          const checked = checkImported(text);
+          if (!checked.ok) {
+            console.error(`Model ${entry.id} returned an invalid paper`);
+            failures.push(`${entry.label}: returned an invalid paper (${formatIssues(checked.issues, 3).replace(/\n/g, '; ')})`);
+            continue;
+          }
+          send(null, { delta: text });
+        }
+
+        send(null, '[DONE]');
+        controller.close();
+        return;
+      }
+
+      send('error', { message: failures.length ? `All models failed. ${failures.join('; ')}` : 'Generation cancelled' });
+      controller.close();
+    },
+  });
+
+  return new Response(events, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'X-Prompt-Version': PROMPT_VERSION,
+      ...quotaHeaders(userQuota.status),
+    },
+  });
+}
@@ -0,0 +1,25 @@
+// Vercel turns this file into a serverless function at the path /api/models.
+// It tells the frontend which models it may pick from; the list itself lives in _providers.ts.
+import { availableModels, DEFAULT_MODEL_ID } from './_providers.ts';
+
+export const config = {
+  runtime: 'edge',
+};
+
+export default function handler(request: Request) {
+  if (request.method !== 'GET') {
+    return new Response('Error: Method Not Allowed', { status: 405 });
+  }
+
+  // Only ids and labels: which provider or key backs a model stays on the server
+  const models = availableModels().map(({ id, label }) => ({ id, label }));
+  const defaultModel = models.some((m) => m.id === DEFAULT_MODEL_ID) ? DEFAULT_MODEL_ID : models[0]?.id ?? null;
+
+  return new Response(JSON.stringify({ models, default: defaultModel }), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=300',
+    },
+  });
+}
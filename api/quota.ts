@@ -0,0 +1,35 @@
+// Vercel turns this file into a serverless function at the path /api/quota.
+// Lets the frontend show how many generations the signed-in user has left, without using one.
+import { bearerToken, verifyIdToken } from './_auth.ts';
+import { LIMITS, peek } from './_quota.ts';
+
+export const config = {
+  runtime: 'edge',
+};
+
+export default async function handler(request: Request) {
+  if (request.method !== 'GET') {
+    return new Response('Error: Method Not Allowed', { status: 405 });
+  }
+
+  const token = bearerToken(request);
+  let userId: string | null;
+  try {
+    userId = token ? await verifyIdToken(token) : null;
+  } catch (e) {
+    console.error('Could not verify ID token:', e);
+    return new Response('Error: Server configuration error', { status: 500 });
+  }
+  if (!userId) {
+    return new Response('Error: Sign-in required', { status: 401 });
+  }
+
+  const status = await peek('user', userId);
+  return new Response(JSON.stringify({ ...status, windowSeconds: LIMITS.user.windowSeconds }), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
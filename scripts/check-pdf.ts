@@ -0,0 +1,85 @@
+// QPaper Forge — headless PDF check
+// Renders a small paper, its answer key and a sets key with pdfRender.ts in Node, the way
+// pdf.ts does in the browser but with jsPDF's built-in Helvetica and one stand-in formula
+// image. Fails on any exception or on a PDF that is missing what it should show.
+//
+//   node --experimental-strip-types scripts/check-pdf.ts [out-dir]
+//
+// (Node 22.6 or later; Node 23.6+ needs no flag.) With out-dir, the PDFs are written there to look at.
+
+import { strict as assert } from 'node:assert';
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { jsPDF } from 'jspdf';
+import type { PaperJSON } from '../src/schema.ts';
+import { type MathImages, mathKey } from '../src/pdfText.ts';
+import { type PdfContext, renderAnswerKey, renderPaper, renderSetsAnswerKey } from '../src/pdfRender.ts';
+import { DEFAULT_TEMPLATE } from '../src/templates.ts';
+import { deriveSets } from '../src/sets.ts';
+
+// A 1×1 transparent PNG, standing in for a rasterized formula
+const PIXEL = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+const images: MathImages = new Map([
+  [mathKey("x^2", false), { key: "m0", png: PIXEL, width: 1.2, ascent: 0.9, descent: 0.2, inkAscent: 0.9, inkDescent: 0.2 }],
+]);
+
+const paper: PaperJSON = {
+  metadata: { board: "CBSE", grade: "Class 10", subject: "Mathematics", topic: "Quadratic Equations", timeLimitMinutes: 60, totalMarks: 10, language: "English", version: "check" },
+  structure: {
+    sections: [
+      {
+        title: "Section A",
+        instructions: "Choose the correct option.",
+        questions: [
+          { id: "q1", type: "mcq", text: "Which of these is a root of $x^2$ = 4?", options: ["1", "2", "3", "4"], answer: "B", marks: 1 },
+          { id: "q2", type: "mcq", text: "How many roots does a quadratic equation have at most?", options: ["One", "Two", "Three", "Four"], answer: "B", marks: 1 },
+        ],
+      },
+      {
+        title: "Section B\nLong answers", // headings keep their second line
+        questions: [
+          {
+            id: "q3",
+            type: "long",
+            text: "Solve 2x^2 - 7x + 3 = 0 by factorisation and check both roots. ".repeat(4).trim(),
+            answer: "x = 3 or x = 1/2",
+            marks: 8,
+            markingScheme: [{ step: "Factorise", marks: 4 }, { step: "Both roots", marks: 4 }],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+const render = (name: string, draw: (ctx: PdfContext) => void) => {
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  draw({ doc, images, font: "helvetica" });
+  const pdf = doc.output();
+  assert.ok(pdf.startsWith("%PDF-"), `${name}: not a PDF`);
+  return { doc, pdf, name };
+};
+
+const outputs = [
+  render("paper.pdf", (ctx) => renderPaper(ctx, "Quadratic Equations", paper, { ...DEFAULT_TEMPLATE, schoolName: "Check School", answerSpace: "lines" })),
+  render("answer-key.pdf", (ctx) => renderAnswerKey(ctx, "Quadratic Equations", paper)),
+  render("sets-key.pdf", (ctx) => renderSetsAnswerKey(ctx, "Quadratic Equations", paper, deriveSets(paper, 2))),
+];
+
+// Words are drawn one by one, each as a PDF text operator
+const shows = (pdf: string, word: string) => pdf.includes(`(${word}) Tj`);
+
+const [questionPaper, answerKey, setsKey] = outputs;
+assert.ok(shows(questionPaper.pdf, "School"), "paper: school name missing");
+assert.ok(shows(questionPaper.pdf, "factorisation"), "paper: question text missing");
+assert.ok(shows(questionPaper.pdf, "answers") && shows(answerKey.pdf, "answers"), "second line of a section title missing");
+assert.ok(questionPaper.pdf.includes("/Subtype /Image"), "paper: formula image not embedded");
+assert.ok(shows(answerKey.pdf, "Factorise"), "answer key: marking scheme missing");
+assert.ok(shows(setsKey.pdf, "Set B"), "sets key: set columns missing");
+
+const outDir = process.argv[2];
+for (const { doc, name } of outputs) {
+  if (outDir) writeFileSync(join(outDir, name), Buffer.from(doc.output("arraybuffer")));
+  console.log(`${name}: ${doc.getNumberOfPages()} page(s)`);
+}
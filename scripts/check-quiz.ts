@@ -0,0 +1,53 @@
+// QPaper Forge — headless quiz grading check
+// Runs the auto-grader in quiz.ts against answer keys written the way the model and teachers
+// write them: LaTeX fractions, Indian digit grouping, units and worked steps. Fails on the
+// first case graded differently from what is expected here.
+//
+//   node --experimental-strip-types scripts/check-quiz.ts
+//
+// (Node 22.6 or later; Node 23.6+ needs no flag.)
+
+import { strict as assert } from 'node:assert';
+import type { Question } from '../src/schema.ts';
+import { gradeAnswer, parseNumber } from '../src/quiz.ts';
+
+const numerical = (answer: string): Question => ({ id: "q", type: "numerical", text: "", answer });
+
+// text → the number read from it, or null when it can't be read without guessing
+const numbers: Array<[string, number | null]> = [
+  ["12.5 m/s", 12.5],
+  ["-3/4", -0.75],
+  ["1.5 × 10^3", 1500],
+  ["2e-4", 0.0002],
+  ["1,200", 1200],
+  ["1,200,000", 1200000],
+  ["1,20,000", 120000],
+  ["₹12,34,567.50", 1234567.5],
+  ["$\\frac{3}{4}$", 0.75],
+  ["$\\dfrac{-3}{4}$ m", -0.75],
+  ["\\tfrac{1}{2}", 0.5],
+  ["$\\frac{x}{2}$", null],
+  ["about fifty", null],
+];
+for (const [text, expected] of numbers) {
+  const got = parseNumber(text);
+  const same = got === null || expected === null ? got === expected : Math.abs(got - expected) <= 1e-12 * Math.max(1, Math.abs(expected));
+  assert.ok(same, `parseNumber(${JSON.stringify(text)}) is ${got}, expected ${expected}`);
+}
+
+// key, student's answer → graded right, wrong, or left to the teacher (null)
+const grades: Array<[string, string, boolean | null]> = [
+  ["$\\frac{3}{4}$", "0.75", true],
+  ["$\\frac{3}{4}$", "3/4", true],
+  ["$\\frac{3}{4}$", "3", false],
+  ["Amount = ₹1,20,000", "120000", true],
+  ["Amount = ₹1,20,000", "1,20,000", true],
+  ["Amount = ₹1,20,000", "1", false],
+  ["v = u + at = 0 + 2 × 5 = 10 m/s", "10", true],
+  ["x = \\frac{a}{2}", "2", null],
+];
+for (const [key, given, expected] of grades) {
+  assert.equal(gradeAnswer(numerical(key), given), expected, `gradeAnswer(${JSON.stringify(key)}, ${JSON.stringify(given)})`);
+}
+
+console.log(`quiz grading: ${numbers.length + grades.length} cases ok`);
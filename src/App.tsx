@@ -1,11 +1,40 @@
-import React, { useMemo, useEffect, useState } from "react";
+import React, { useCallback, useMemo, useEffect, useRef, useState } from "react";
 import { initializeApp } from 'firebase/app';
 import { type Auth, getAuth, signInAnonymously, onAuthStateChanged, signInWithCustomToken } from 'firebase/auth'; // <-- 1. Fixed type-only import
-import { type Firestore, getFirestore, collection, addDoc, serverTimestamp, setLogLevel } from 'firebase/firestore'; // <-- 1. Fixed type-only import
+import { type Firestore, initializeFirestore, persistentLocalCache, persistentMultipleTabManager, collection, addDoc, serverTimestamp, setLogLevel } from 'firebase/firestore'; // <-- 1. Fixed type-only import
+import { type BankQuestion, type BilingualLayout, type Checked, type CognitiveTargets, type FormState, type GenerationRequest, type PaperJSON, type Question, type SchemaIssue, BILINGUAL_LAYOUTS, COGNITIVE_LEVELS, DEFAULT_COGNITIVE_TARGETS, DEFAULT_DIFFICULTY_SPLIT, LANGUAGES, MAX_IMPORT_CHARS, QUESTION_TYPES, missingLevels, missingTranslations, unitIssues, unitNameIssues, withUnitTotals, parseJSON, parsePaper, validateQuestionList, formatIssues } from './schema.ts';
+import { useHistory } from './history.ts';
+import PaperEditor from './PaperEditor.tsx';
+import { MAX_SETS, deriveSets } from './sets.ts';
+import { draftPaper, parsePartialJSON, readSSE } from './streaming.ts';
+import { type SavedPaper, APP_ID, createPaper, defaultTitle, deletePaper, duplicatePaper, newPaperId, renamePaper, subscribeLibrary, updatePaper } from './library.ts';
+import LibraryPanel from './LibraryPanel.tsx';
+import { deleteFromBank, markUsed, normalizeText, saveToBank, subscribeBank, tagsOf, toPaperQuestions } from './bank.ts';
+import BankPanel from './BankPanel.tsx';
+import { exportAnswerKeyPDF, exportSetsAnswerKeyPDF, exportToPDF } from './pdf.ts';
+import { paperToDocx } from './docx.ts';
+import { paperToLatex } from './latex.ts';
+import MathText from './MathText.tsx';
+import { type PdfTemplate, type SavedTemplate, DEFAULT_TEMPLATE, createTemplate, deleteTemplate, subscribeTemplates, updateTemplate } from './templates.ts';
+import TemplatePanel from './TemplatePanel.tsx';
+import { type SavedPreset, createPreset, deletePreset, subscribePresets, updatePreset } from './presets.ts';
+import PresetBar from './PresetBar.tsx';
+import { type QuizResponse, type SavedQuiz, publishQuiz, setQuizOpen, subscribeOwnQuizzes, subscribeResponses } from './quiz.ts';
+import QuizPanel from './QuizPanel.tsx';
+import QuizTaker from './QuizTaker.tsx';
+import { BOARD_PATTERNS, applyPattern, patternIssues, withPatternTotals } from './patterns.ts';
+import UnitEditor from './UnitEditor.tsx';
+import LevelChart from './LevelChart.tsx';
+import SyllabusFields from './SyllabusFields.tsx';
+import { chapterOutcomes, syllabusOptions } from './syllabus.ts';
+import { type DuplicateMatch, NEAR_DUPLICATE_THRESHOLD, findDuplicates, indexHistory, textSimilarity } from './similarity.ts';
+import { formFromPaper, migratePaper, parsePaperText, readDocxText, withImportMetadata } from './importPaper.ts';
+import ImportPanel from './ImportPanel.tsx';
+import { checkBlueprint, describeMismatch, insertQuestions, missingCounts, redistributeMarks, removeExtraQuestions } from './blueprint.ts';
 
 // QPaper Forge — single-file React + TypeScript app
 // Premium glassmorphism UI, AI-generated question papers, PDF export, regenerate with limits
-// Works with OpenRouter or Google Gemini APIs (client-side). For production, proxy through your backend.
+// Generation goes through /api/generate, which picks between OpenRouter, Gemini and local OpenAI-compatible models.
 // TailwindCSS is assumed available in your build. If not, replace className styles with your CSS.
 
 // -------------- Firebase & API Key Setup --------------
@@ -31,13 +60,18 @@ try {
   
   } else {
     // No config found
-    console.warn("Firebase config is missing. No __firebase_config global or VITE_FIREBASE_CONFIG found. Search logging will be disabled.");
+    console.warn("Firebase config is missing. No __firebase_config global or VITE_FIREBASE_CONFIG found. Search logging and the paper library will be disabled.");
   }
 
   if (firebaseConfig) {
     // Initialize Firebase
     const app = initializeApp(firebaseConfig);
-    db = getFirestore(app);
+    // Cached in IndexedDB: the library works offline and writes sync when the connection is back.
+    // Optional question fields are often undefined, which Firestore would otherwise reject.
+    db = initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+      ignoreUndefinedProperties: true,
+    });
     auth = getAuth(app);
     setLogLevel('debug'); // <-- 2. Fixed 'Debug' to 'debug'
   }
@@ -65,292 +99,250 @@ try {
 }
 
 
-// -------------- Types --------------
-type QuestionType = "mcq" | "short" | "long" | "numerical";
-
-type Question = {
-  id: string;
-  type: QuestionType;
-  text: string;
-  options?: string[]; // for MCQ
-  answer?: string;
-  marks?: number;
-  difficulty?: "easy" | "medium" | "hard";
-};
-
-type PaperJSON = {
-  metadata: {
-    board: string; // e.g., CBSE/State/ICSE/Generic
-    grade: string; // e.g., Class 12
-    subject: string; // e.g., Mathematics
-    topic: string; // e.g., Integration
-    timeLimitMinutes?: number;
-    totalMarks?: number;
-    language?: string; // e.g., English/Hindi
-    version: string; // schema version
-    seed?: number;
-  };
-  structure: {
-    sections: Array<{
-      title: string;
-      instructions?: string;
-      questions: Question[];
-    }>;
-  };
-};
-
 // -------------- Helpers --------------
 const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(n, b));
 
-// 8. REMOVED unused 'uid' function
-
-function wrapText(text: string, maxChars = 92): string[] { // <-- 9. REMOVED unused 'ctx' parameter
-  // Simple word-wrap for PDF (monospace-ish assumption)
-  const words = text.split(/\s+/);
-  const lines: string[] = [];
-  let line = "";
-  for (const w of words) {
-    if ((line + " " + w).trim().length > maxChars) {
-      lines.push(line.trim());
-      line = w;
-    } else {
-      line = (line + " " + w).trim();
-    }
-  }
-  if (line) lines.push(line.trim());
-  return lines;
-}
-
-// Helper to load CDN scripts
-function loadScript(src: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    if (document.querySelector(`script[src="${src}"]`)) {
-      resolve();
-      return;
-    }
-    const script = document.createElement("script");
-    script.src = src;
-    script.onload = () => resolve();
-    script.onerror = () => reject(new Error(`Failed to load script ${src}`));
-    document.head.appendChild(script);
-  });
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
 }
 
-// -------------- PDF (jsPDF) --------------
-// Using dynamic import to avoid bundling if unused
-async function exportToPDF(docTitle: string, paper: PaperJSON) {
-  try {
-    // Load jsPDF from CDN
-    await loadScript("https://cdnjs.cloudflare.com/ajax/libs/jspdf/2.5.1/jspdf.umd.min.js");
-  } catch (e) {
-    console.error(e);
-    alert("Failed to load PDF library. Please try again.");
-    return;
-  }
-
-  // @ts-ignore
-  const { jsPDF } = window.jspdf;
-  const doc = new jsPDF({ unit: "pt", format: "a4" });
-
-  const marginX = 48;
-  let y = 64;
-  const width = doc.internal.pageSize.getWidth();
-  const lineHeight = 18;
-
-  // Header
-  doc.setFont("Helvetica", "bold");
-  doc.setFontSize(18);
-  doc.text(docTitle, marginX, y);
-  y += 24;
-
-  doc.setFontSize(11);
-  doc.setFont("Helvetica", "normal");
-  const metaLine = `Board: ${paper.metadata.board}  |  Grade: ${paper.metadata.grade}  |  Subject: ${paper.metadata.subject}`;
-  doc.text(metaLine, marginX, y);
-  y += 16;
-  doc.text(`Topic: ${paper.metadata.topic}  |  Time: ${paper.metadata.timeLimitMinutes ?? "—"} min  |  Marks: ${paper.metadata.totalMarks ?? "—"}`, marginX, y);
-  y += 24;
-
-  const addPageIfNeeded = (needed: number) => {
-    const pageHeight = doc.internal.pageSize.getHeight();
-    if (y + needed > pageHeight - 64) {
-      doc.addPage();
-      y = 64;
-    }
-  };
-
-  // Sections & Questions
-  paper.structure.sections.forEach((sec, si) => {
-    addPageIfNeeded(40);
-    doc.setFont("Helvetica", "bold");
-    doc.setFontSize(14);
-    doc.text(`${si + 1}. ${sec.title}`, marginX, y);
-    y += 22;
-
-    if (sec.instructions) {
-      doc.setFont("Helvetica", "italic");
-      doc.setFontSize(11);
-      const lines = wrapText(sec.instructions, 96); // <-- 9. REMOVED unused 'ctx'
-      for (const ln of lines) {
-        addPageIfNeeded(lineHeight);
-        doc.text(ln, marginX, y);
-        y += lineHeight;
-      }
-      y += 4;
-    }
-
-    doc.setFont("Helvetica", "normal");
-    doc.setFontSize(12);
+// 8. REMOVED unused 'uid' function
 
-    sec.questions.forEach((q, qi) => {
-      const qLabel = `${si + 1}.${qi + 1}`;
-      const header = `${qLabel}) [${q.type.toUpperCase()}${q.marks ? ` • ${q.marks} marks` : ""}${q.difficulty ? ` • ${q.difficulty}` : ""}]`;
+// -------------- AI Calls --------------
+// Used until /api/models answers; the server decides which models are actually allowed
+const DEFAULT_MODEL = "openrouter:google/gemini-2.0-flash-thinking-exp";
 
-      addPageIfNeeded(lineHeight * 2);
-      doc.setFont("Helvetica", "bold");
-      doc.text(header, marginX, y);
-      y += lineHeight;
+type ModelOption = { id: string; label: string };
 
-      doc.setFont("Helvetica", "normal");
-      doc.setFontSize(12);
+type QuotaStatus = { limit: number; remaining: number; resetAt: number };
 
-      const qLines = wrapText(q.text, 96); // <-- 9. REMOVED unused 'ctx'
-      qLines.forEach((ln) => {
-        addPageIfNeeded(lineHeight);
-        doc.text(ln, marginX, y);
-        y += lineHeight;
-      });
-
-      if (q.type === "mcq" && q.options?.length) {
-        q.options.forEach((opt, idx) => {
-          const optText = `${String.fromCharCode(65 + idx)}. ${opt}`;
-          const oLines = wrapText(optText, 90); // <-- 9. REMOVED unused 'ctx'
-          oLines.forEach((ln) => {
-            addPageIfNeeded(lineHeight);
-            doc.text(ln, marginX + 18, y);
-            y += lineHeight;
-          });
-        });
-      }
-
-      y += 8;
-    });
+async function authHeaders(): Promise<Record<string, string>> {
+  const token = await auth?.currentUser?.getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
 
-    y += 8;
-  });
+// The backend answers errors as "Error: <message>"; 429s also say when to try again
+async function apiErrorMessage(res: Response): Promise<string> {
+  const text = (await res.text().catch(() => "")).replace(/^Error:\s*/, "");
+  if (res.status === 429) {
+    const minutes = Math.ceil(Number(res.headers.get("Retry-After") ?? 60) / 60);
+    return `${text || "Too many requests."} Try again in ${minutes >= 60 ? `${Math.ceil(minutes / 60)} h` : `${minutes} min`}.`;
+  }
+  return text ? `API error ${res.status}: ${text}` : `API error ${res.status}`;
+}
 
-  // Footer
-  const date = new Date().toLocaleString();
-  const footer = `Generated by QPaper Forge • ${date}`;
-  const textWidth = doc.getTextWidth(footer);
-  const pageHeight = doc.internal.pageSize.getHeight();
-  doc.setFontSize(9);
-  doc.text(footer, width - textWidth - marginX, pageHeight - 24);
+async function fetchQuota(): Promise<QuotaStatus> {
+  const res = await fetch("/api/quota", { headers: await authHeaders() });
+  if (!res.ok) throw new Error(await apiErrorMessage(res));
+  return res.json();
+}
 
-  doc.save(`${docTitle.replace(/\s+/g, "_")}.pdf`);
+async function fetchModels(): Promise<{ models: ModelOption[]; default: string | null }> {
+  const res = await fetch("/api/models");
+  if (!res.ok) throw new Error(`API error ${res.status}`);
+  return res.json();
 }
 
-// -------------- AI Calls --------------
 // RENAMED this function from callOpenRouterJSON to callGenerateApi
 async function callGenerateApi(params: {
   // REMOVED apiKey from parameters
   model: string;
-  prompt: string;
+  request: GenerationRequest; // the backend turns this into the actual prompt
   seed?: number;
-}) {
-  const { model, prompt, seed } = params;
+  signal?: AbortSignal;
+  onDelta?: (textSoFar: string) => void; // called as the model's JSON streams in
+}): Promise<{ text: string; promptVersion: string }> {
+  const { model, request, seed, signal, onDelta } = params;
   // CHANGED the URL to our new, relative backend API endpoint
   const res = await fetch("/api/generate", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
-      // REMOVED Authorization, Referer, and X-Title headers.
-      // The backend will handle all secrets.
+      // REMOVED Referer and X-Title headers; the backend handles all secrets.
+      // The Firebase ID token identifies the user for server-side quotas.
+      ...(await authHeaders()),
     },
     body: JSON.stringify({
       // We just pass the data our backend will need
       model,
-      prompt,
+      request,
       seed,
     }),
+    signal,
   });
-  if (!res.ok) throw new Error(`API error ${res.status}`); // Updated error message
-  const data = await res.json();
-  // We assume our backend will pass the JSON from OpenRouter straight through
-  const content: string = data.choices?.[0]?.message?.content ?? "{}";
-  return JSON.parse(content) as PaperJSON;
+  if (!res.ok || !res.body) throw new Error(await apiErrorMessage(res));
+
+  // The backend streams the model's JSON as `{ delta }` events (see api/generate.ts).
+  // Returned raw: parsing and validation happen in generateWithRepair so bad JSON can be repaired
+  let content = "";
+  let streamError: string | null = null;
+  await readSSE(res.body, (event, data) => {
+    if (event === "error") {
+      streamError = (JSON.parse(data) as { message: string }).message;
+    } else if (event === "model") {
+      // The backend (re)started on a model, e.g. falling back after a provider error
+      content = "";
+      onDelta?.(content);
+    } else if (data !== "[DONE]") {
+      content += (JSON.parse(data) as { delta: string }).delta;
+      onDelta?.(content);
+    }
+  });
+  if (streamError) throw new Error(`AI API error: ${streamError}`);
+  return { text: content || "{}", promptVersion: res.headers.get("X-Prompt-Version") ?? "unknown" };
 }
 
-// REMOVED the callGeminiJSON function as it's no longer needed
+// -------------- Validation & Repair --------------
+const MAX_REPAIR_ATTEMPTS = 2;
+
+type BaseRequest = Exclude<GenerationRequest, { kind: "repair" }>;
+
+// Metadata comes from the form, not the model, so it is filled in before validation.
+// `version` is the server's prompt template version, so a paper says how it was made.
+function withFormMetadata(value: unknown, form: FormState, seed: number, version: string): unknown {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return value;
+  const obj = value as Record<string, unknown>;
+  const meta = typeof obj.metadata === "object" && obj.metadata !== null ? obj.metadata : {};
+  return {
+    ...obj,
+    metadata: {
+      ...meta,
+      version,
+      seed,
+      board: form.board,
+      grade: form.grade,
+      subject: form.subject,
+      topic: form.topic,
+      timeLimitMinutes: form.timeLimitMinutes,
+      totalMarks: form.totalMarks,
+      language: form.language,
+      secondLanguage: secondLanguageOf(form),
+      syllabus: chapterOutcomes(form)?.syllabus,
+    },
+  };
+}
 
-// -------------- Prompt Builder --------------
-function buildPrompt(input: FormState) {
-  const {
-    board,
-    grade,
-    subject,
-    topic,
-    timeLimitMinutes,
-    totalMarks,
-    language,
-    difficulty,
-    counts,
-    extraInstructions,
-  } = input;
-
-  const schema = `Return JSON in this exact TypeScript shape:\n\n{
-  "metadata": {
-    "board": string,
-    "grade": string,
-    "subject": string,
-    "topic": string,
-    "timeLimitMinutes": number,
-    "totalMarks": number,
-    "language": string,
-    "version": "1.0",
-    "seed": number
-  },
-  "structure": {
-    "sections": Array<{
-      "title": string,
-      "instructions"?: string,
-      "questions": Array<{
-        "id": string,
-        "type": "mcq" | "short" | "long" | "numerical",
-        "text": string,
-        "options"?: string[],
-        "answer"?: string,
-        "marks"?: number,
-        "difficulty"?: "easy" | "medium" | "hard"
-      }>
-    }>
+// The server ignores a second language that is the same as the first, and so does the client
+const secondLanguageOf = (form: FormState) => (form.secondLanguage && form.secondLanguage !== form.language ? form.secondLanguage : undefined);
+
+// Calls the model, checks the output, and re-asks with the error list up to MAX_REPAIR_ATTEMPTS times
+async function generateWithRepair<T>(params: {
+  model: string;
+  request: BaseRequest;
+  seed: number;
+  check: (raw: string, promptVersion: string) => Checked<T>;
+  signal?: AbortSignal;
+  onDelta?: (textSoFar: string) => void;
+}): Promise<T> {
+  const { model, request, seed, check, signal, onDelta } = params;
+  let res = await callGenerateApi({ model, request, seed, signal, onDelta });
+  let issues: SchemaIssue[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const result = check(res.text, res.promptVersion);
+    if (result.ok) return result.value;
+
+    issues = result.issues;
+    console.warn(`Generated output failed validation (attempt ${attempt + 1}):\n${formatIssues(issues, 50)}`);
+    if (attempt === MAX_REPAIR_ATTEMPTS) break;
+    const repair: GenerationRequest = { kind: "repair", original: request, previousOutput: res.text, issues };
+    res = await callGenerateApi({ model, request: repair, seed, signal, onDelta });
   }
-}`;
 
-  const blueprint = `Generate a balanced question paper that matches Indian school patterns. Constraints:\n- Board: ${board}\n- Grade/Class: ${grade}\n- Subject: ${subject}\n- Topic/Unit: ${topic}\n- Overall difficulty: ${difficulty}\n- Time limit: ${timeLimitMinutes} minutes\n- Total marks: ${totalMarks}\n- Language: ${language}\n- Include sections grouped by type.\n- Number of questions per type: MCQ=${counts.mcq}, Short=${counts.short}, Long=${counts.long}, Numerical=${counts.numerical}.\n- MCQs must include 4 options.\n- Provide short, precise model answers (do not reveal in the main body if typical exam would not). You may include answers inline in the JSON but questions must be clean.\n- Use unique IDs for questions.\n- Avoid repetition and ensure syllabus-accurate content for ${subject} (${topic}).\n${extraInstructions ? `- Extra: ${extraInstructions}` : ""}\n\n${schema}\nReturn ONLY the JSON object.`;
+  throw new Error(`The AI returned a paper we couldn't use, even after ${MAX_REPAIR_ATTEMPTS} repair attempts. Please try again.\n${formatIssues(issues)}`);
+}
 
-  return blueprint;
+function generatePaper(params: {
+  model: string;
+  form: FormState;
+  seed: number;
+  signal?: AbortSignal;
+  onDelta?: (textSoFar: string) => void;
+}): Promise<PaperJSON> {
+  const { form, seed } = params;
+  return generateWithRepair({
+    ...params,
+    request: { kind: "paper", form },
+    check: (raw, version) => {
+      const pattern = form.pattern;
+      const result = parsePaper(raw, (value) => withFormMetadata(pattern ? applyPattern(value, pattern) : value, form, seed, version));
+      if (!result.ok) return result;
+      const questions = result.value.structure.sections.flatMap((sec, si) => sec.questions.map((q, qi) => ({ q, path: `structure.sections[${si}].questions[${qi}]` })));
+      const issues = [
+        ...(secondLanguageOf(form) ? missingTranslations(questions) : []),
+        ...(form.units?.length ? unitIssues(questions, form.units) : []),
+        ...(form.cognitiveTargets ? missingLevels(questions) : []),
+        ...(pattern ? patternIssues(result.value.structure.sections, pattern) : []),
+      ];
+      return issues.length ? { ok: false, issues } : result;
+    },
+  });
 }
 
-// -------------- UI State --------------
-type FormState = {
-  board: string;
-  grade: string;
-  subject: string;
-  topic: string;
-  timeLimitMinutes: number;
-  totalMarks: number;
-  language: string;
-  difficulty: "easy" | "medium" | "hard";
-  counts: { mcq: number; short: number; long: number; numerical: number };
-  extraInstructions?: string;
-};
+// For pasted or uploaded papers that parsePaperText couldn't read: the model structures them
+function structurePaper(params: {
+  model: string;
+  text: string;
+  form: FormState;
+  seed: number;
+  signal?: AbortSignal;
+  onDelta?: (textSoFar: string) => void;
+}): Promise<PaperJSON> {
+  const { text, form } = params;
+  return generateWithRepair({
+    ...params,
+    request: { kind: "import", text },
+    check: (raw, version) => parsePaper(raw, (value) => withImportMetadata(value, form, version)),
+  });
+}
 
+// For partial generations: a `{ "questions": [...] }` object whose ids don't clash with `takenIds`.
+// `expect` adds request-specific checks on top of the schema (e.g. the type being replaced).
+function generateQuestions(params: {
+  model: string;
+  request: Extract<BaseRequest, { kind: "fill" | "replace" }>;
+  seed: number;
+  takenIds: string[];
+  expect?: (questions: Question[]) => SchemaIssue[];
+}): Promise<{ questions: Question[]; promptVersion: string }> {
+  const { takenIds, expect } = params;
+  const bilingual = !!secondLanguageOf(params.request.form);
+  // New questions on a paper planned by unit must say which unit they belong to; a replacement takes its predecessor's
+  const units = params.request.kind === "fill" ? params.request.form.units ?? [] : [];
+  const levels = !!params.request.form.cognitiveTargets;
+  return generateWithRepair({
+    ...params,
+    check: (raw, promptVersion) => {
+      const parsed = parseJSON(raw);
+      const result = parsed.ok ? validateQuestionList(parsed.value, takenIds) : parsed;
+      if (!result.ok) return result;
+      const refs = result.value.map((q, i) => ({ q, path: `questions[${i}]` }));
+      const issues = [
+        ...(bilingual ? missingTranslations(refs) : []),
+        ...(units.length ? unitIssues(refs, units) : []),
+        ...(levels ? missingLevels(refs) : []),
+        ...(expect?.(result.value) ?? []),
+      ];
+      return issues.length ? { ok: false, issues } : { ok: true, value: { questions: result.value, promptVersion } };
+    },
+  });
+}
+
+const questionIds = (paper: PaperJSON) => paper.structure.sections.flatMap((s) => s.questions.map((q) => q.id));
+
+// REMOVED the callGeminiJSON function as it's no longer needed
+
+// -------------- UI State --------------
 const defaultForm: FormState = {
   board: "CBSE",
   grade: "Class 12",
   subject: "Mathematics",
-  topic: "Integration",
+  topic: "Integrals",
   timeLimitMinutes: 180,
   totalMarks: 100,
   language: "English",
@@ -359,23 +351,62 @@ const defaultForm: FormState = {
   extraInstructions: "Follow recent exam blueprints; emphasize conceptual reasoning and application.",
 };
 
+// Students open a published quiz at ?quiz={id} (see quiz.ts) and see only that
+const QUIZ_ID = new URLSearchParams(window.location.search).get("quiz");
+
 // -------------- Main Component --------------
 export default function App() {
   const [form, setForm] = useState<FormState>(defaultForm);
-  // REMOVED provider, model, and geminiModel states
+  // REMOVED provider and geminiModel states; the model picker is driven by /api/models
   
   // API key is now loaded from the global scope
   const apiKey: string = openRouterApiKey || "";
 
-  const [paper, setPaper] = useState<PaperJSON | null>(null);
+  // Every change to the paper after generation (fixes, replacements, edits) can be undone
+  const { value: paper, set: setPaper, reset: resetPaper, undo, redo, canUndo, canRedo } = useHistory<PaperJSON | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [setCount, setSetCount] = useState<number>(3);
+  const [model, setModel] = useState<string>(DEFAULT_MODEL);
+  const [models, setModels] = useState<ModelOption[]>([]);
+  // The form the current paper was generated from; the blueprint check compares against this
+  const [paperForm, setPaperForm] = useState<FormState | null>(null);
   const [seed, setSeed] = useState<number>(() => Math.floor(Math.random() * 1e9));
-  const [regenLeft, setRegenLeft] = useState<number>(3);
+  // Generations left today, as counted by the server (see api/_quota.ts)
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
   const [busy, setBusy] = useState(false);
+  const [replacing, setReplacing] = useState<string | null>(null); // id of the question being replaced
+  // While streaming: the partial paper so far, and a way to stop it
+  const [draft, setDraft] = useState<PaperJSON | null>(null);
+  const [abort, setAbort] = useState<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const [userId, setUserId] = useState<string | null>(null);
   const [isAuthReady, setIsAuthReady] = useState(false);
 
+  // Saved papers (see library.ts). `libraryId` is the saved copy of the paper on screen;
+  // `lastSaved` is the version last written to it, so reopening doesn't count as an edit.
+  const [library, setLibrary] = useState<SavedPaper[]>([]);
+  const [libraryId, setLibraryId] = useState<string | null>(null);
+  const lastSaved = useRef<PaperJSON | null>(null);
+  // Question bank (see bank.ts) and the bank questions picked for the next paper
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  // How bilingual papers place translations, in the preview and the PDF alike
+  const [bilingualLayout, setBilingualLayout] = useState<BilingualLayout>("interleaved");
+  // PDF layout (see templates.ts); `templateId` is the saved template it was loaded from
+  const [template, setTemplate] = useState<PdfTemplate>(DEFAULT_TEMPLATE);
+  const [templates, setTemplates] = useState<SavedTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  // Saved Exam Details forms (see presets.ts); `presetId` is the one the form was loaded from
+  const [presets, setPresets] = useState<SavedPreset[]>([]);
+  const [presetId, setPresetId] = useState<string | null>(null);
+  // Published quizzes, and the responses to the one whose results are shown
+  const [quizzes, setQuizzes] = useState<SavedQuiz[]>([]);
+  const [quizId, setQuizId] = useState<string | null>(null);
+  const [quizResponses, setQuizResponses] = useState<QuizResponse[]>([]);
+  // Whether the Word and LaTeX exports end with the answer key
+  const [withAnswerKey, setWithAnswerKey] = useState(false);
+
   // One-time auth listener
   useEffect(() => {
     if (!auth) {
@@ -431,9 +462,129 @@ export default function App() {
     return `${paper.metadata.subject} • ${paper.metadata.topic} • ${qCount} questions`;
   }, [paper]);
 
+  const refreshQuota = useCallback(() => {
+    fetchQuota()
+      .then(setQuota)
+      .catch((e) => console.warn("Could not load quota:", e));
+  }, []);
+
+  useEffect(() => {
+    if (userId) refreshQuota();
+  }, [userId, refreshQuota]);
+
+  useEffect(() => {
+    if (!db || !userId) return;
+    return subscribeLibrary(db, userId, setLibrary, (e) => console.warn("Could not load saved papers:", e));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!db || !userId) return;
+    return subscribeBank(db, userId, setBank, (e) => console.warn("Could not load the question bank:", e));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!db || !userId) return;
+    return subscribeTemplates(db, userId, setTemplates, (e) => console.warn("Could not load PDF templates:", e));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!db || !userId) return;
+    return subscribePresets(db, userId, setPresets, (e) => console.warn("Could not load exam presets:", e));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!db || !userId || QUIZ_ID) return;
+    return subscribeOwnQuizzes(db, userId, setQuizzes, (e) => console.warn("Could not load quizzes:", e));
+  }, [userId]);
+
+  useEffect(() => {
+    setQuizResponses([]);
+    if (!db || !quizId) return;
+    return subscribeResponses(db, quizId, setQuizResponses, (e) => setError(`Could not load the quiz results: ${e.message}`));
+  }, [quizId]);
+
+  const bankTexts = useMemo(() => new Set(bank.map((q) => normalizeText(q.text))), [bank]);
+
+  // Edits are saved a moment after they stop, so typing doesn't write on every keystroke
+  useEffect(() => {
+    if (!db || !userId || !libraryId || !paper || !paperForm || paper === lastSaved.current) return;
+    const firestore = db;
+    const timer = setTimeout(() => {
+      lastSaved.current = paper;
+      updatePaper(firestore, userId, libraryId, { paper, form: paperForm, seed: paper.metadata.seed ?? seed })
+        .catch((e) => setError(`Could not save the paper: ${(e as Error).message}`));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [paper, paperForm, libraryId, userId, seed]);
+
+  // The model picker only offers what the server allows
+  useEffect(() => {
+    fetchModels()
+      .then((res) => {
+        setModels(res.models);
+        if (res.default) setModel(res.default);
+      })
+      .catch((e) => console.warn("Could not load model list, using default:", e));
+  }, []);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z outside text fields (those keep their native undo)
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.tagName === "SELECT")) return;
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [undo, redo]);
+
+  // Questions streamed so far against the number asked for; never quite 100% until validated
+  const progress = useMemo(() => {
+    const expected = Object.values(form.counts).reduce((a, b) => a + b, 0);
+    const received = draft?.structure.sections.reduce((acc, s) => acc + s.questions.length, 0) ?? 0;
+    return expected > 0 ? clamp(5 + (received / expected) * 90, 5, 95) : 50;
+  }, [draft, form.counts]);
+
+  // What the preview shows: the streaming draft while generating, otherwise the paper
+  const view = draft ?? paper;
+
+  // Unnamed or same-named units can't be told apart in the paper; UnitEditor says which
+  const unitsNamed = !form.units || unitNameIssues(form.units).size === 0;
+
+  const blueprint = useMemo(() => (paper && paperForm && !draft ? checkBlueprint(paper, paperForm) : null), [paper, paperForm, draft]);
+
+  // Repeats within the paper, and of questions from papers saved before this one
+  const history = useMemo(() => {
+    const createdAt = library.find((e) => e.id === libraryId)?.createdAt;
+    return indexHistory(library.filter((e) => e.id !== libraryId && (!createdAt || e.createdAt < createdAt)));
+  }, [library, libraryId]);
+  const duplicates = useMemo(
+    () => (paper && !draft ? findDuplicates(paper, history) : new Map<string, DuplicateMatch>()),
+    [paper, draft, history],
+  );
+
   const onChange = <K extends keyof FormState>(key: K, val: FormState[K]) =>
     setForm((f) => ({ ...f, [key]: val }));
 
+  // Planning by unit starts from one unit holding the whole current blueprint
+  const handlePlanByUnit = (on: boolean) =>
+    setForm((f) =>
+      on
+        ? withUnitTotals({ ...f, units: [{ name: f.topic, marks: f.totalMarks, counts: f.counts, difficulty: { ...DEFAULT_DIFFICULTY_SPLIT } }] })
+        : { ...f, units: undefined },
+    );
+
+  // A board pattern sets the counts, marks and time; the two can't be combined with units
+  const handlePattern = (id: string) =>
+    setForm((f) => {
+      const pattern = BOARD_PATTERNS.find((p) => p.id === id);
+      if (!pattern) return { ...f, pattern: undefined };
+      return withPatternTotals({ ...f, pattern, units: undefined, timeLimitMinutes: pattern.timeLimitMinutes });
+    });
+
   const handleGenerate = async (isRegenerate = false) => {
     setBusy(true);
     setError(null);
@@ -458,9 +609,7 @@ export default function App() {
         };
         
         // Use a generic path for public logs
-        // @ts-ignore
-        const appId = typeof __app_id !== 'undefined' ? __app_id : 'default-app-id';
-        const logCollectionPath = `artifacts/${appId}/public/data/search_logs`;
+        const logCollectionPath = `artifacts/${APP_ID}/public/data/search_logs`;
         
         const docRef = await addDoc(collection(db, logCollectionPath), logData);
         console.log("Search log added with ID: ", docRef.id);
@@ -473,63 +622,397 @@ export default function App() {
     // --- End Logging ---
 
     try {
-      const prompt = buildPrompt({ ...form, counts: {
-        mcq: clamp(form.counts.mcq, 0, 50),
-        short: clamp(form.counts.short, 0, 50),
-        long: clamp(form.counts.long, 0, 50),
-        numerical: clamp(form.counts.numerical, 0, 50),
-      } });
-
-      let result: PaperJSON;
       const activeSeed = isRegenerate ? Math.floor(Math.random() * 1e9) : seed;
-      // SIMPLIFIED: Always call our new API endpoint
-      const modelToUse = "google/gemini-2.0-flash-thinking-exp";
-      // UPDATED this function call to match the new name and parameters
-      result = await callGenerateApi({ model: modelToUse, prompt, seed: activeSeed });
-
-      // basic validation
-      if (!result?.structure?.sections?.length) throw new Error("Model returned empty structure");
-
-      // backfill metadata defaults
-      result.metadata = {
-        ...(result.metadata || {}), // <-- 3, 4, 5, 6, 7. MOVED spread to the top
-        version: "1.0",
+      // Validated against the schema (with metadata backfilled from the form) and repaired if needed.
+      // Meanwhile the streamed JSON is shown as a draft, section by section.
+      const controller = new AbortController();
+      setAbort(controller);
+      const result = await generatePaper({
+        model,
         seed: activeSeed,
-        board: form.board,
-        grade: form.grade,
-        subject: form.subject,
-        topic: form.topic,
-        timeLimitMinutes: form.timeLimitMinutes,
-        totalMarks: form.totalMarks,
-        language: form.language,
-      } as PaperJSON["metadata"];
-
-      setPaper(result);
-      if (isRegenerate) setRegenLeft((n) => clamp(n - 1, 0, 99));
+        form,
+        signal: controller.signal,
+        onDelta: (text) => setDraft(draftPaper(parsePartialJSON(text))),
+      });
+
+      resetPaper(result);
+      setPaperForm(form);
       if (!isRegenerate) setSeed(activeSeed);
+      saveNewPaper(result, form, activeSeed);
     } catch (e: any) {
-      setError(e?.message || "Generation failed");
+      setError(e?.name === "AbortError" ? "Generation cancelled." : e?.message || "Generation failed");
     } finally {
+      setAbort(null);
+      setDraft(null);
       setBusy(false);
+      refreshQuota();
+    }
+  };
+
+  const handleCancel = () => abort?.abort();
+
+  // Without Firestore (no config) or a user the paper simply isn't saved
+  const saveNewPaper = (next: PaperJSON, nextForm: FormState, nextSeed: number) => {
+    lastSaved.current = next;
+    if (!db || !userId) {
+      setLibraryId(null);
+      return;
+    }
+    const id = newPaperId(db, userId);
+    setLibraryId(id);
+    createPaper(db, userId, id, { paper: next, form: nextForm, seed: nextSeed })
+      .catch((e) => setError(`Could not save the paper: ${(e as Error).message}`));
+  };
+
+  // Saved papers may predate later fields and versions, so they are migrated and checked like
+  // an imported JSON file, and their form is filled in from the defaults
+  const handleOpenSaved = (entry: SavedPaper) => {
+    const result = migratePaper(entry.paper);
+    if (!result.ok) {
+      setError(`"${entry.title}" can't be opened:\n${formatIssues(result.issues)}`);
+      return;
+    }
+    const savedForm = { ...defaultForm, ...entry.form };
+    lastSaved.current = result.value;
+    resetPaper(result.value);
+    setPaperForm(savedForm);
+    setForm(savedForm);
+    setSeed(entry.seed);
+    setLibraryId(entry.id);
+    setEditing(false);
+    setError(null);
+  };
+
+  // An imported paper opens like a generated one and is saved to the library as a new paper
+  const openImported = (next: PaperJSON) => {
+    const nextForm = formFromPaper(next, form);
+    const nextSeed = next.metadata.seed ?? seed;
+    resetPaper(next);
+    setPaperForm(nextForm);
+    setForm(nextForm);
+    setSeed(nextSeed);
+    setEditing(false);
+    saveNewPaper(next, nextForm, nextSeed);
+  };
+
+  const handleImportText = async (text: string) => {
+    setError(null);
+    const parsed = parsePaperText(text, form);
+    if (parsed.ok) {
+      openImported(parsed.value);
+      return;
+    }
+    if (!apiKey) {
+      setError("API Key is missing. Please set VITE_OPENROUTER_API_KEY in your .env.local file and restart the server.");
+      return;
+    }
+    if (text.trim().length > MAX_IMPORT_CHARS) {
+      setError(`This paper couldn't be read as it is, and at ${text.trim().length} characters it is too long for the AI to structure (at most ${MAX_IMPORT_CHARS}). Import it in parts, or tidy its numbering so it can be read without the AI.`);
+      return;
+    }
+    setBusy(true);
+    try {
+      const controller = new AbortController();
+      setAbort(controller);
+      openImported(
+        await structurePaper({
+          model,
+          text,
+          form,
+          seed,
+          signal: controller.signal,
+          onDelta: (raw) => setDraft(draftPaper(parsePartialJSON(raw))),
+        }),
+      );
+    } catch (e) {
+      setError((e as Error).name === "AbortError" ? "Import cancelled." : (e as Error).message || "Import failed");
+    } finally {
+      setAbort(null);
+      setDraft(null);
+      setBusy(false);
+      refreshQuota();
+    }
+  };
+
+  // JSON is one of our own downloads, possibly from an older version; anything else is read as text
+  const handleImportFile = async (file: File) => {
+    setError(null);
+    try {
+      if (/\.json$/i.test(file.name)) {
+        const parsed = parseJSON(await file.text());
+        const result = parsed.ok ? migratePaper(parsed.value) : parsed;
+        if (result.ok) openImported(result.value);
+        else setError(`${file.name} isn't a paper we can open:\n${formatIssues(result.issues)}`);
+        return;
+      }
+      await handleImportText(/\.docx$/i.test(file.name) ? await readDocxText(file) : await file.text());
+    } catch (e) {
+      setError(`Could not read ${file.name}: ${(e as Error).message}`);
+    }
+  };
+
+  const handleDuplicateSaved = (entry: SavedPaper) => {
+    if (!db || !userId) return;
+    const { written } = duplicatePaper(db, userId, entry);
+    written.catch((e) => setError(`Could not duplicate the paper: ${(e as Error).message}`));
+  };
+
+  const handleRenameSaved = (entry: SavedPaper, title: string) => {
+    if (!db || !userId) return;
+    renamePaper(db, userId, entry.id, title).catch((e) => setError(`Could not rename the paper: ${(e as Error).message}`));
+  };
+
+  const handleSaveToBank = (q: Question) => {
+    if (!db || !userId || !paper || bankTexts.has(normalizeText(q.text))) return;
+    saveToBank(db, userId, q, tagsOf(paper, q)).written.catch((e) => setError(`Could not save to the bank: ${(e as Error).message}`));
+  };
+
+  const handleRemoveFromBank = (q: BankQuestion) => {
+    if (!db || !userId) return;
+    setPicked((prev) => new Set([...prev].filter((id) => id !== q.id)));
+    deleteFromBank(db, userId, q.id).catch((e) => setError(`Could not remove the question: ${(e as Error).message}`));
+  };
+
+  const handleTogglePick = (id: string) =>
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  // Starts a paper from the picked bank questions and has the model write only what the form still needs
+  const handleAssemble = async () => {
+    const chosen = bank.filter((q) => picked.has(q.id));
+    if (!chosen.length) return;
+    setBusy(true);
+    setError(null);
+    try {
+      // "bank" until the model writes part of it, then the prompt version of that call
+      let next = insertQuestions(withFormMetadata({ structure: { sections: [] } }, form, seed, "bank") as PaperJSON, toPaperQuestions(chosen));
+      const missing = missingCounts(checkBlueprint(next, form));
+      if (Object.keys(missing).length) {
+        const { questions: added, promptVersion } = await generateQuestions({
+          model,
+          request: { kind: "fill", form, paper: next, missing },
+          seed,
+          takenIds: questionIds(next),
+        });
+        next = insertQuestions(next, added);
+        next = { ...next, metadata: { ...next.metadata, version: promptVersion } };
+      }
+
+      resetPaper(next);
+      setPaperForm(form);
+      setEditing(false);
+      saveNewPaper(next, form, seed);
+      setPicked(new Set());
+      if (db && userId) markUsed(db, userId, chosen.map((q) => q.id)).catch((e) => console.warn("Could not update bank usage:", e));
+    } catch (e) {
+      setError((e as Error).message || "Could not assemble the paper");
+    } finally {
+      setBusy(false);
+      refreshQuota();
+    }
+  };
+
+  // The paper on screen stays open, but it is no longer saved anywhere
+  const handleDeleteSaved = (entry: SavedPaper) => {
+    if (!db || !userId) return;
+    if (entry.id === libraryId) setLibraryId(null);
+    deletePaper(db, userId, entry.id).catch((e) => setError(`Could not delete the paper: ${(e as Error).message}`));
+  };
+
+  const handleApplyTemplate = (entry: SavedTemplate) => {
+    setTemplate(entry.template);
+    setTemplateId(entry.id);
+  };
+
+  const handleSaveTemplate = (name: string) => {
+    if (!db || !userId) return;
+    const { id, written } = createTemplate(db, userId, name, template);
+    setTemplateId(id);
+    written.catch((e) => setError(`Could not save the template: ${(e as Error).message}`));
+  };
+
+  const handleUpdateTemplate = () => {
+    if (!db || !userId || !templateId) return;
+    updateTemplate(db, userId, templateId, template).catch((e) => setError(`Could not save the template: ${(e as Error).message}`));
+  };
+
+  const handleDeleteTemplate = (entry: SavedTemplate) => {
+    if (!db || !userId) return;
+    if (entry.id === templateId) setTemplateId(null);
+    deleteTemplate(db, userId, entry.id).catch((e) => setError(`Could not delete the template: ${(e as Error).message}`));
+  };
+
+  // Forms saved before a field existed get its default
+  const handleApplyPreset = (entry: SavedPreset) => {
+    setForm({ ...defaultForm, ...entry.form });
+    setPresetId(entry.id);
+  };
+
+  const handleSavePreset = (name: string) => {
+    if (!db || !userId) return;
+    const { id, written } = createPreset(db, userId, name, form);
+    setPresetId(id);
+    written.catch((e) => setError(`Could not save the preset: ${(e as Error).message}`));
+  };
+
+  const handleUpdatePreset = () => {
+    if (!db || !userId || !presetId) return;
+    updatePreset(db, userId, presetId, form).catch((e) => setError(`Could not save the preset: ${(e as Error).message}`));
+  };
+
+  const handleDeletePreset = (entry: SavedPreset) => {
+    if (!db || !userId) return;
+    if (entry.id === presetId) setPresetId(null);
+    deletePreset(db, userId, entry.id).catch((e) => setError(`Could not delete the preset: ${(e as Error).message}`));
+  };
+
+  const handlePublishQuiz = () => {
+    if (!db || !userId || !paper) return;
+    if (!paper.structure.sections.some((s) => s.questions.length > 0)) {
+      setError("This paper has no questions to publish.");
+      return;
+    }
+    const gradable = paper.structure.sections.some((s) => s.questions.some((q) => q.type === "mcq" || q.type === "numerical"));
+    if (!gradable && !window.confirm("This paper has no MCQ or numerical questions, so none of it will be graded automatically. Publish it anyway?")) return;
+    const { id, written } = publishQuiz(db, userId, defaultTitle(paper), paper);
+    setQuizId(id);
+    written.catch((e) => setError(`Could not publish the quiz: ${(e as Error).message}`));
+  };
+
+  const handleSetQuizOpen = (quiz: SavedQuiz, open: boolean) => {
+    if (!db || !userId) return;
+    setQuizOpen(db, userId, quiz.id, open).catch((e) => setError(`Could not update the quiz: ${(e as Error).message}`));
+  };
+
+  const handleRedistributeMarks = () => {
+    if (!paper || !paperForm) return;
+    setPaper(redistributeMarks(paper, paperForm.totalMarks, paperForm.units));
+  };
+
+  // Trims surplus questions locally and asks the model only for the ones that are missing
+  const handleFixCounts = async () => {
+    if (!paper || !paperForm) return;
+    setBusy(true);
+    setError(null);
+    try {
+      let next = removeExtraQuestions(paper, paperForm.counts);
+      const missing = missingCounts(checkBlueprint(next, paperForm));
+      if (Object.keys(missing).length) {
+        const { questions: added } = await generateQuestions({
+          model,
+          request: { kind: "fill", form: paperForm, paper: next, missing },
+          seed: paper.metadata.seed ?? seed,
+          takenIds: questionIds(next),
+        });
+        next = insertQuestions(next, added);
+      }
+      setPaper(next);
+    } catch (e) {
+      setError((e as Error).message || "Could not fix question counts");
+    } finally {
+      setBusy(false);
+      refreshQuota();
+    }
+  };
+
+  // Swaps one question in place, keeping its id, marks, difficulty, unit and level so the blueprint still holds
+  const handleReplaceQuestion = async (si: number, qi: number) => {
+    if (!paper) return;
+    const current = paper.structure.sections[si].questions[qi];
+    // A question flagged as a repeat from another paper must not come back in new words either
+    const match = duplicates.get(current.id);
+    const avoid = match?.source.kind === "history" ? [match.text] : [];
+    const others = paper.structure.sections.flatMap((s) => s.questions.filter((q) => q.id !== current.id).map((q) => q.text));
+    setReplacing(current.id);
+    setError(null);
+    try {
+      const { questions: [fresh] } = await generateQuestions({
+        model,
+        request: { kind: "replace", form: paperForm ?? form, paper, sectionIndex: si, questionIndex: qi, avoid },
+        seed: Math.floor(Math.random() * 1e9),
+        takenIds: questionIds(paper).filter((id) => id !== current.id),
+        expect: (qs) => [
+          ...(qs.length !== 1 ? [{ path: "questions", message: "expected exactly one question" }] : []),
+          ...qs.flatMap((q, i) => (q.type !== current.type ? [{ path: `questions[${i}].type`, message: `expected "${current.type}"` }] : [])),
+          ...qs.flatMap((q, i) =>
+            [current.text, ...others, ...avoid].some((t) => textSimilarity(q.text, t) >= NEAR_DUPLICATE_THRESHOLD)
+              ? [{ path: `questions[${i}].text`, message: "too similar to an existing question; write a different one" }]
+              : [],
+          ),
+        ],
+      });
+      const replacement: Question = {
+        ...fresh,
+        id: current.id,
+        marks: current.marks ?? fresh.marks,
+        difficulty: current.difficulty ?? fresh.difficulty,
+        unit: current.unit ?? fresh.unit,
+        cognitiveLevel: current.cognitiveLevel ?? fresh.cognitiveLevel,
+        competencyBased: current.competencyBased ?? fresh.competencyBased,
+      };
+      setPaper((p) => {
+        if (!p) return p;
+        const sections = p.structure.sections.map((sec, i) =>
+          i === si ? { ...sec, questions: sec.questions.map((q) => (q.id === current.id ? replacement : q)) } : sec,
+        );
+        return { ...p, structure: { ...p.structure, sections } };
+      });
+    } catch (e) {
+      setError((e as Error).message || "Could not replace the question");
+    } finally {
+      setReplacing(null);
+      refreshQuota();
     }
   };
 
   const handleDownloadPDF = async () => {
     if (!paper) return;
-    await exportToPDF(`${paper.metadata.subject} ${paper.metadata.grade} — ${paper.metadata.topic}`, paper);
+    await exportToPDF(`${paper.metadata.subject} ${paper.metadata.grade} — ${paper.metadata.topic}`, paper, template, bilingualLayout);
+  };
+
+  const handleDownloadAnswerKey = async () => {
+    if (!paper) return;
+    await exportAnswerKeyPDF(`${paper.metadata.subject} ${paper.metadata.grade} — ${paper.metadata.topic}`, paper);
+  };
+
+  // Each set as its own PDF, then one key covering all of them
+  const handleDownloadSets = async () => {
+    if (!paper) return;
+    const title = `${paper.metadata.subject} ${paper.metadata.grade} — ${paper.metadata.topic}`;
+    const sets = deriveSets(paper, setCount);
+    for (const set of sets) await exportToPDF(title, set, template, bilingualLayout);
+    await exportSetsAnswerKeyPDF(title, paper, sets);
   };
 
   const handleDownloadJSON = () => {
     if (!paper) return;
     const blob = new Blob([JSON.stringify(paper, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `qpaper_${paper.metadata.subject.replace(/\s+/g, "_")}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `qpaper_${paper.metadata.subject.replace(/\s+/g, "_")}.json`);
   };
 
+  const handleDownloadDocx = async () => {
+    if (!paper) return;
+    const title = `${paper.metadata.subject} ${paper.metadata.grade} — ${paper.metadata.topic}`;
+    try {
+      downloadBlob(await paperToDocx(title, paper, { answerKey: withAnswerKey }), `${title.replace(/\s+/g, "_")}.docx`);
+    } catch (e) {
+      setError(`Could not create the Word file: ${(e as Error).message}`);
+    }
+  };
+
+  const handleDownloadLatex = () => {
+    if (!paper) return;
+    const title = `${paper.metadata.subject} ${paper.metadata.grade} — ${paper.metadata.topic}`;
+    const tex = paperToLatex(title, paper, { answerKey: withAnswerKey });
+    downloadBlob(new Blob([tex], { type: "application/x-tex" }), `${title.replace(/\s+/g, "_")}.tex`);
+  };
+
+  if (QUIZ_ID) return <QuizTaker db={db} userId={userId} quizId={QUIZ_ID} />;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-950 to-black text-slate-100 selection:bg-white/20">
       {/* Shell */}
@@ -553,7 +1036,7 @@ export default function App() {
           <div className="h-[3px] w-full bg-white/5">
             <div
               className="h-[3px] bg-white/70 transition-all"
-              style={{ width: busy ? "100%" : "0%" }}
+              style={{ width: busy ? `${progress}%` : "0%" }}
             />
           </div>
         </div>
@@ -564,29 +1047,35 @@ export default function App() {
           <div className="lg:col-span-1 space-y-6">
             <Card>
               <CardHeader title="Exam Details" subtitle="Fill the blueprint" />
+              {db && userId && (
+                <div className="mb-3">
+                  <PresetBar
+                    saved={presets}
+                    currentId={presetId}
+                    onApply={handleApplyPreset}
+                    onSaveNew={handleSavePreset}
+                    onUpdate={handleUpdatePreset}
+                    onDelete={handleDeletePreset}
+                  />
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-3">
-                <Field label="Board">
-                  <input className="inp" value={form.board} onChange={(e) => onChange("board", e.target.value)} />
-                </Field>
-                <Field label="Class/Grade">
-                  <input className="inp" value={form.grade} onChange={(e) => onChange("grade", e.target.value)} />
-                </Field>
-                <Field label="Subject">
-                  <input className="inp" value={form.subject} onChange={(e) => onChange("subject", e.target.value)} />
-                </Field>
-                <Field label="Topic/Unit">
-                  <input className="inp" value={form.topic} onChange={(e) => onChange("topic", e.target.value)} />
-                </Field>
+                <SyllabusFields form={form} onChange={setForm} />
                 <Field label="Time (min)">
                   <input type="number" className="inp" value={form.timeLimitMinutes} onChange={(e) => onChange("timeLimitMinutes", Number(e.target.value))} />
                 </Field>
                 <Field label="Total Marks">
-                  <input type="number" className="inp" value={form.totalMarks} onChange={(e) => onChange("totalMarks", Number(e.target.value))} />
+                  <input type="number" className="inp" value={form.totalMarks} onChange={(e) => onChange("totalMarks", Number(e.target.value))} disabled={!!form.units || !!form.pattern} />
                 </Field>
                 <Field label="Language">
                   <select className="inp" value={form.language} onChange={(e) => onChange("language", e.target.value)}>
-                    <option>English</option>
-                    <option>Hindi</option>
+                    {LANGUAGES.map((lang) => <option key={lang}>{lang}</option>)}
+                  </select>
+                </Field>
+                <Field label="Second Language">
+                  <select className="inp" value={secondLanguageOf(form) ?? ""} onChange={(e) => onChange("secondLanguage", e.target.value || undefined)}>
+                    <option value="">None</option>
+                    {LANGUAGES.filter((lang) => lang !== form.language).map((lang) => <option key={lang}>{lang}</option>)}
                   </select>
                 </Field>
                 <Field label="Difficulty">
@@ -597,85 +1086,338 @@ export default function App() {
                   </select>
                 </Field>
               </div>
-              <div className="grid grid-cols-4 gap-3 mt-3">
-                <Field label="MCQ">
-                  <input type="number" className="inp" value={form.counts.mcq} onChange={(e) => setForm((f) => ({ ...f, counts: { ...f.counts, mcq: Number(e.target.value) } }))} />
-                </Field>
-                <Field label="Short">
-                  <input type="number" className="inp" value={form.counts.short} onChange={(e) => setForm((f) => ({ ...f, counts: { ...f.counts, short: Number(e.target.value) } }))} />
-                </Field>
-                <Field label="Long">
-                  <input type="number" className="inp" value={form.counts.long} onChange={(e) => setForm((f) => ({ ...f, counts: { ...f.counts, long: Number(e.target.value) } }))} />
-                </Field>
-                <Field label="Numerical">
-                  <input type="number" className="inp" value={form.counts.numerical} onChange={(e) => setForm((f) => ({ ...f, counts: { ...f.counts, numerical: Number(e.target.value) } }))} />
-                </Field>
-              </div>
+              <Field label="Paper pattern" className="mt-3">
+                <select className="inp" value={form.pattern?.id ?? ""} onChange={(e) => handlePattern(e.target.value)}>
+                  <option value="">Free (set the counts below)</option>
+                  {BOARD_PATTERNS.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              </Field>
+              {!form.pattern && (
+                <label className="flex gap-2 items-center text-sm cursor-pointer mt-3">
+                  <input type="checkbox" checked={!!form.units} onChange={(e) => handlePlanByUnit(e.target.checked)} />
+                  Chapter-wise weightage (several units)
+                </label>
+              )}
+              {form.pattern ? (
+                <ol className="mt-3 space-y-1 text-sm">
+                  {form.pattern.sections.map((sec, si) => (
+                    <li key={si} className="flex justify-between gap-2">
+                      <span>{sec.title}</span>
+                      <span className="opacity-70">{sec.count} × {sec.type.toUpperCase()} • {sec.marks} mark{sec.marks === 1 ? "" : "s"} each</span>
+                    </li>
+                  ))}
+                  <li className="text-xs opacity-70 pt-1">Paper total: {form.totalMarks} marks</li>
+                </ol>
+              ) : form.units ? (
+                <div className="mt-3">
+                  <UnitEditor units={form.units} chapters={syllabusOptions(form).chapters} onChange={(units) => setForm((f) => withUnitTotals({ ...f, units }))} />
+                  <p className="mt-2 text-xs opacity-70">
+                    Paper total: {form.totalMarks} marks •{" "}
+                    {QUESTION_TYPES.map((t) => `${t.toUpperCase()} ${form.counts[t]}`).join(" • ")}
+                  </p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-4 gap-3 mt-3">
+                  <Field label="MCQ">
+                    <input type="number" className="inp" value={form.counts.mcq} onChange={(e) => setForm((f) => ({ ...f, counts: { ...f.counts, mcq: Number(e.target.value) } }))} />
+                  </Field>
+                  <Field label="Short">
+                    <input type="number" className="inp" value={form.counts.short} onChange={(e) => setForm((f) => ({ ...f, counts: { ...f.counts, short: Number(e.target.value) } }))} />
+                  </Field>
+                  <Field label="Long">
+                    <input type="number" className="inp" value={form.counts.long} onChange={(e) => setForm((f) => ({ ...f, counts: { ...f.counts, long: Number(e.target.value) } }))} />
+                  </Field>
+                  <Field label="Numerical">
+                    <input type="number" className="inp" value={form.counts.numerical} onChange={(e) => setForm((f) => ({ ...f, counts: { ...f.counts, numerical: Number(e.target.value) } }))} />
+                  </Field>
+                </div>
+              )}
+              <label className="flex gap-2 items-center text-sm cursor-pointer mt-3">
+                <input
+                  type="checkbox"
+                  checked={!!form.cognitiveTargets}
+                  onChange={(e) => onChange("cognitiveTargets", e.target.checked ? DEFAULT_COGNITIVE_TARGETS : undefined)}
+                />
+                Bloom's level targets (% of marks)
+              </label>
+              {form.cognitiveTargets && (
+                <CognitiveTargetsFields targets={form.cognitiveTargets} onChange={(t) => onChange("cognitiveTargets", t)} />
+              )}
               <Field label="Extra Instructions" className="mt-3">
                 <textarea className="inp min-h-20" value={form.extraInstructions} onChange={(e) => onChange("extraInstructions", e.target.value)} placeholder="Blueprint notes, sectioning rules, etc." />
               </Field>
               
               {/* --- MOVED CONTROLS --- */}
-              <Field label="Seed" className="mt-3">
-                <input type="number" className="inp" value={seed} onChange={(e) => setSeed(Number(e.target.value))} />
-              </Field>
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <Field label="Model">
+                  <select className="inp" value={model} onChange={(e) => setModel(e.target.value)} disabled={!models.length}>
+                    {models.length ? (
+                      models.map((m) => <option key={m.id} value={m.id}>{m.label}</option>)
+                    ) : (
+                      <option value={model}>Default</option>
+                    )}
+                  </select>
+                </Field>
+                <Field label="Seed">
+                  <input type="number" className="inp" value={seed} onChange={(e) => setSeed(Number(e.target.value))} />
+                </Field>
+              </div>
               <div className="flex gap-3 mt-4">
-                <button className="btn" onClick={() => handleGenerate(false)} disabled={busy || !isAuthReady}>
+                <button className="btn" onClick={() => handleGenerate(false)} disabled={busy || replacing !== null || quota?.remaining === 0 || !isAuthReady || !unitsNamed}>
                   {busy ? "Generating…" : (isAuthReady ? "Generate" : "Connecting...")}
                 </button>
-                <button className="btn ghost" onClick={() => handleGenerate(true)} disabled={busy || regenLeft <= 0 || !isAuthReady}>
-                  Regenerate ({regenLeft})
+                <button className="btn ghost" onClick={() => handleGenerate(true)} disabled={busy || replacing !== null || quota?.remaining === 0 || !isAuthReady || !unitsNamed}>
+                  Regenerate
                 </button>
+                {abort && (
+                  <button className="btn ghost" onClick={handleCancel}>Cancel</button>
+                )}
               </div>
-              {error && <p className="mt-3 text-red-300 text-sm">{error}</p>}
+              {quota && (
+                <p className="mt-2 text-xs opacity-70">
+                  {quota.remaining} of {quota.limit} generations left today • resets {new Date(quota.resetAt * 1000).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                </p>
+              )}
+              {error && <p className="mt-3 text-red-300 text-sm whitespace-pre-wrap">{error}</p>}
               {/* --- END MOVED CONTROLS --- */}
             </Card>
 
             {/* REMOVED the entire "AI Provider" Card */}
 
+            {db && (
+              <Card>
+                <CardHeader title="Library" subtitle="Saved papers" />
+                <LibraryPanel
+                  papers={library}
+                  currentId={libraryId}
+                  disabled={busy || replacing !== null}
+                  onOpen={handleOpenSaved}
+                  onDuplicate={handleDuplicateSaved}
+                  onRename={handleRenameSaved}
+                  onDelete={handleDeleteSaved}
+                />
+              </Card>
+            )}
+
+            {db && (
+              <Card>
+                <CardHeader title="Question Bank" subtitle="Reuse good questions" />
+                <BankPanel
+                  questions={bank}
+                  picked={picked}
+                  disabled={busy || replacing !== null}
+                  onTogglePick={handleTogglePick}
+                  onDelete={handleRemoveFromBank}
+                  onAssemble={handleAssemble}
+                />
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader title="Import" subtitle="Open an existing paper" />
+              <ImportPanel
+                disabled={busy || replacing !== null || !isAuthReady}
+                onFile={handleImportFile}
+                onText={handleImportText}
+              />
+            </Card>
+
+            <Card>
+              <CardHeader title="PDF Layout" subtitle="Header, instructions and answer space" />
+              <TemplatePanel
+                template={template}
+                saved={db && userId ? templates : null}
+                currentId={templateId}
+                onChange={setTemplate}
+                onApply={handleApplyTemplate}
+                onSaveNew={handleSaveTemplate}
+                onUpdate={handleUpdateTemplate}
+                onDelete={handleDeleteTemplate}
+              />
+            </Card>
+
             <Card>
               <CardHeader title="Export" subtitle="Download your paper" />
               <div className="flex gap-3">
                 <button className="btn" onClick={handleDownloadPDF} disabled={!paper}>Download PDF</button>
+                <button className="btn ghost" onClick={handleDownloadAnswerKey} disabled={!paper}>Answer Key</button>
                 <button className="btn ghost" onClick={handleDownloadJSON} disabled={!paper}>Download JSON</button>
               </div>
-              <p className="text-xs opacity-70 mt-2">Tip: Share JSON with your team, or convert to Word/LaTeX server-side later.</p>
+              <div className="flex items-center gap-3 mt-3">
+                <button className="btn ghost" onClick={handleDownloadDocx} disabled={!paper}>Word (.docx)</button>
+                <button className="btn ghost" onClick={handleDownloadLatex} disabled={!paper}>LaTeX (.tex)</button>
+                <label className="flex gap-2 items-center text-sm cursor-pointer">
+                  <input type="checkbox" checked={withAnswerKey} onChange={(e) => setWithAnswerKey(e.target.checked)} />
+                  With answer key
+                </label>
+              </div>
+              <div className="flex items-end gap-3 mt-3">
+                <Field label="Sets">
+                  <input type="number" min={2} max={MAX_SETS} className="inp w-20" value={setCount} onChange={(e) => setSetCount(clamp(Number(e.target.value), 2, MAX_SETS))} />
+                </Field>
+                <button className="btn ghost" onClick={handleDownloadSets} disabled={!paper}>Download Sets</button>
+              </div>
+              {paper?.metadata.secondLanguage && (
+                <Field label="Translation Layout" className="mt-3">
+                  <select className="inp" value={bilingualLayout} onChange={(e) => setBilingualLayout(e.target.value as BilingualLayout)}>
+                    {BILINGUAL_LAYOUTS.map((l) => (
+                      <option key={l} value={l}>{l === "interleaved" ? "Interleaved (translation below)" : "Side by side"}</option>
+                    ))}
+                  </select>
+                </Field>
+              )}
+              <p className="text-xs opacity-70 mt-2">Tip: Share JSON with your team, edit in Word, or typeset the .tex file yourself.</p>
             </Card>
+
+            {db && userId && (
+              <Card>
+                <CardHeader title="Online Quiz" subtitle="Timed test in the browser" />
+                <QuizPanel
+                  quizzes={quizzes}
+                  currentId={quizId}
+                  responses={quizResponses}
+                  canPublish={!!paper && !draft && paper.structure.sections.some((s) => s.questions.length > 0)}
+                  disabled={busy}
+                  onPublish={handlePublishQuiz}
+                  onSelect={setQuizId}
+                  onSetOpen={handleSetQuizOpen}
+                />
+              </Card>
+            )}
           </div>
 
           {/* Right: Preview */}
           <div className="lg:col-span-2">
             <Card>
-              <CardHeader title="Preview" subtitle={paper ? "Draft view (not WYSIWYG)" : "Nothing generated yet"} />
-              {paper ? (
+              <CardHeader title="Preview" subtitle={draft ? "Generating…" : paper ? (editing ? "Editing" : "Draft view") : "Nothing generated yet"} />
+              {paper && (
+                <div className="flex gap-2 mb-4">
+                  <button className="btn" onClick={() => setEditing((v) => !v)} disabled={busy || replacing !== null}>
+                    {editing ? "Done" : "Edit"}
+                  </button>
+                  <button className="btn ghost" onClick={undo} disabled={!canUndo}>Undo</button>
+                  <button className="btn ghost" onClick={redo} disabled={!canRedo}>Redo</button>
+                </div>
+              )}
+              {paper && editing && !draft ? (
+                <PaperEditor paper={paper} units={paperForm?.units?.map((u) => u.name)} onChange={setPaper} />
+              ) : view ? (
                 <div className="space-y-6">
                   <div>
-                    <h3 className="text-lg font-semibold">{paper.metadata.subject} — {paper.metadata.topic}</h3>
-                    <p className="text-sm opacity-80">{paper.metadata.board} • {paper.metadata.grade} • Time: {paper.metadata.timeLimitMinutes} min • Marks: {paper.metadata.totalMarks} • Lang: {paper.metadata.language}</p>
+                    <h3 className="text-lg font-semibold">{view.metadata.subject} — {view.metadata.topic}</h3>
+                    <p className="text-sm opacity-80">{view.metadata.board} • {view.metadata.grade} • Time: {view.metadata.timeLimitMinutes} min • Marks: {view.metadata.totalMarks} • Lang: {view.metadata.language}{view.metadata.secondLanguage && ` + ${view.metadata.secondLanguage}`}{view.metadata.syllabus && ` • Syllabus: ${view.metadata.syllabus}`}</p>
                   </div>
 
-                  {paper.structure.sections.map((sec, si) => (
+                  {blueprint && !blueprint.ok && (
+                    <div className="rounded-2xl border border-amber-300/30 bg-amber-300/10 p-4">
+                      <h4 className="font-semibold mb-1">Blueprint check</h4>
+                      <p className="text-sm opacity-80 mb-2">
+                        Marks: {blueprint.totalMarks.actual} / {blueprint.totalMarks.expected} •{" "}
+                        {blueprint.byType.map((t) => `${t.type.toUpperCase()} ${t.actual}/${t.expected}`).join(" • ")}
+                      </p>
+                      <ul className="text-sm text-amber-200 list-disc ml-5 mb-3">
+                        {blueprint.mismatches.filter((m) => m.sectionIndex === null).map((m, i) => (
+                          <li key={i}>{describeMismatch(m)}</li>
+                        ))}
+                      </ul>
+                      <div className="flex gap-3">
+                        <button className="btn ghost" onClick={handleFixCounts} disabled={busy || blueprint.byType.every((t) => t.actual === t.expected)}>
+                          Fix question counts
+                        </button>
+                        <button className="btn ghost" onClick={handleRedistributeMarks} disabled={busy}>
+                          Redistribute marks
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {blueprint && blueprint.byUnit.length > 0 && (
+                    <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                      <h4 className="font-semibold mb-2">Unit weightage</h4>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left opacity-70">
+                            <th className="font-normal">Unit</th>
+                            <th className="font-normal">Questions</th>
+                            <th className="font-normal">Marks</th>
+                            <th className="font-normal" title="Share of the unit's questions at each difficulty, achieved / target">Easy • Med. • Hard %</th>
+                            <th className="w-1/4" />
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {blueprint.byUnit.map((u) => (
+                            <tr key={u.unit} className={u.actual !== u.expected ? "text-amber-200" : ""}>
+                              <td className="py-1">{u.unit}</td>
+                              <td>{u.questions}</td>
+                              <td>{u.actual} / {u.expected}</td>
+                              <td className="opacity-80">{u.difficulty.map((d) => `${d.actual}/${d.target}`).join(" • ")}</td>
+                              <td>
+                                <div className="h-2 rounded bg-white/10">
+                                  <div className="h-2 rounded bg-white/60" style={{ width: `${Math.min(100, (100 * u.actual) / u.expected)}%` }} />
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {blueprint && (paperForm?.cognitiveTargets || blueprint.cognitive.untagged < 100) && (
+                    <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                      <h4 className="font-semibold mb-2">Cognitive levels <span className="text-sm font-normal opacity-70">(% of marks{paperForm?.cognitiveTargets ? ", target marked" : ""})</span></h4>
+                      <LevelChart distribution={blueprint.cognitive} />
+                    </div>
+                  )}
+
+                  {view.structure.sections.map((sec, si) => (
                     <div key={si} className="rounded-2xl border border-white/10 bg-white/5 p-4">
-                      <h4 className="font-semibold mb-1">{si + 1}. {sec.title}</h4>
+                      <h4 className="font-semibold mb-1">
+                        {si + 1}. {sec.title}
+                        {blueprint && <span className="ml-2 text-sm font-normal opacity-70">({blueprint.sectionMarks[si]} marks)</span>}
+                      </h4>
+                      {blueprint?.mismatches.some((m) => m.sectionIndex === si) && (
+                        <ul className="text-sm text-amber-200 list-disc ml-5 mb-2">
+                          {blueprint.mismatches.filter((m) => m.sectionIndex === si).map((m, i) => (
+                            <li key={i}>{describeMismatch(m)}</li>
+                          ))}
+                        </ul>
+                      )}
                       {sec.instructions && (
                         <p className="text-sm opacity-80 mb-2 italic">{sec.instructions}</p>
                       )}
                       <ol className="space-y-3">
                         {sec.questions.map((q, qi) => (
-                          <li key={q.id || qi} className="leading-relaxed ml-4">
+                          <li
+                            key={q.id || qi}
+                            className={`leading-relaxed ml-4 ${duplicates.has(q.id) ? "rounded-xl border border-amber-300/30 bg-amber-300/10 p-2" : ""}`}
+                          >
                             <strong className="mr-1">{qi + 1}.</strong>
-                            <div className="text-sm opacity-70 mb-1 inline-block ml-1">[{q.type.toUpperCase()}{q.marks ? ` • ${q.marks}m` : ""}{q.difficulty ? ` • ${q.difficulty}` : ""}]</div>
-                            <div className="whitespace-pre-wrap ml-6">{q.text}</div>
-                            {q.type === "mcq" && q.options?.length ? (
-                              <ul className="mt-2 space-y-1 ml-10 list-none">
-                                {q.options.map((opt, oi) => (
-                                  <li key={oi} className="flex items-center">
-                                    <span className="mr-2 opacity-80">{String.fromCharCode(65 + oi)}.</span>
-                                    <span>{opt}</span>
-                                  </li>
-                                ))}
-                              </ul>
-                            ) : null}
+                            <div className="text-sm opacity-70 mb-1 inline-block ml-1">[{q.type.toUpperCase()}{q.marks ? ` • ${q.marks}m` : ""}{q.difficulty ? ` • ${q.difficulty}` : ""}{q.unit ? ` • ${q.unit}` : ""}{q.cognitiveLevel ? ` • ${q.cognitiveLevel}` : ""}{q.competencyBased ? " • competency" : ""}]</div>
+                            <button
+                              className="ml-2 text-xs underline opacity-60 hover:opacity-100 disabled:opacity-30"
+                              onClick={() => handleReplaceQuestion(si, qi)}
+                              disabled={busy || replacing !== null}
+                            >
+                              {replacing === q.id ? "Replacing…" : "Replace"}
+                            </button>
+                            {db && !draft && (
+                              <button
+                                className="ml-2 text-xs underline opacity-60 hover:opacity-100 disabled:opacity-30 disabled:no-underline"
+                                onClick={() => handleSaveToBank(q)}
+                                disabled={bankTexts.has(normalizeText(q.text))}
+                              >
+                                {bankTexts.has(normalizeText(q.text)) ? "In bank" : "Save to bank"}
+                              </button>
+                            )}
+                            <QuestionBody q={q} layout={bilingualLayout} />
+                            {duplicates.has(q.id) && (
+                              <DuplicateNote
+                                match={duplicates.get(q.id)!}
+                                onReplace={() => handleReplaceQuestion(si, qi)}
+                                disabled={busy || replacing !== null}
+                              />
+                            )}
                           </li>
                         ))}
                       </ol>
@@ -703,6 +1445,90 @@ export default function App() {
   );
 }
 
+// Target share of marks per Bloom's level, and for competency-based questions
+function CognitiveTargetsFields({ targets, onChange }: { targets: CognitiveTargets; onChange: (targets: CognitiveTargets) => void }) {
+  const total = COGNITIVE_LEVELS.reduce((n, l) => n + targets.levels[l], 0);
+  const percent = (v: string) => clamp(Math.round(Number(v)) || 0, 0, 100);
+  return (
+    <div className="mt-3">
+      <div className="grid grid-cols-3 gap-3">
+        {COGNITIVE_LEVELS.map((l) => (
+          <Field key={l} label={`${l[0].toUpperCase()}${l.slice(1)} %`}>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              className="inp"
+              value={targets.levels[l]}
+              onChange={(e) => onChange({ ...targets, levels: { ...targets.levels, [l]: percent(e.target.value) } })}
+            />
+          </Field>
+        ))}
+      </div>
+      <Field label="Competency-based %" className="mt-3">
+        <input type="number" min={0} max={100} className="inp" value={targets.competencyBased} onChange={(e) => onChange({ ...targets, competencyBased: percent(e.target.value) })} />
+      </Field>
+      {total !== 100 && <p className="mt-2 text-xs text-amber-200">Level targets add up to {total}%, not 100%.</p>}
+    </div>
+  );
+}
+
+// Question text and options, with the translation below or beside them on bilingual papers
+function QuestionBody({ q, layout }: { q: Question; layout: BilingualLayout }) {
+  const t = q.translation;
+  const options = (opts: string[] | undefined, translated?: string[]) =>
+    q.type === "mcq" && opts?.length ? (
+      <ul className="mt-2 space-y-1 ml-4 list-none">
+        {opts.map((opt, oi) => (
+          <li key={oi} className="flex items-start">
+            <span className="mr-2 opacity-80">{String.fromCharCode(65 + oi)}.</span>
+            <span>
+              <MathText text={opt} />
+              {translated?.[oi] && <MathText className="block opacity-70" text={translated[oi]} />}
+            </span>
+          </li>
+        ))}
+      </ul>
+    ) : null;
+
+  if (t && layout === "columns") {
+    return (
+      <div className="grid grid-cols-2 gap-4 ml-6">
+        <div>
+          <MathText className="block whitespace-pre-wrap" text={q.text} />
+          {options(q.options)}
+        </div>
+        <div className="border-l border-white/10 pl-4">
+          <MathText className="block whitespace-pre-wrap" text={t.text} />
+          {options(t.options)}
+        </div>
+      </div>
+    );
+  }
+  return (
+    <div className="ml-6">
+      <MathText className="block whitespace-pre-wrap" text={q.text} />
+      {t && <MathText className="block whitespace-pre-wrap opacity-70" text={t.text} />}
+      {options(q.options, t?.options)}
+    </div>
+  );
+}
+
+// Says what a flagged question repeats, with the same replace action as its Replace link
+function DuplicateNote({ match, onReplace, disabled }: { match: DuplicateMatch; onReplace: () => void; disabled: boolean }) {
+  const where = match.source.kind === "paper"
+    ? `Q${match.source.questionIndex + 1} of section ${match.source.sectionIndex + 1}`
+    : `"${match.source.title}"`;
+  return (
+    <div className="ml-6 mt-1 text-xs text-amber-200">
+      {match.similarity === 1 ? "Repeats" : `${Math.round(match.similarity * 100)}% similar to`} {where}: <span className="italic opacity-80">{match.text.length > 120 ? `${match.text.slice(0, 120)}…` : match.text}</span>
+      <button className="ml-2 underline hover:opacity-100 disabled:opacity-30" onClick={onReplace} disabled={disabled}>
+        Replace it
+      </button>
+    </div>
+  );
+}
+
 // -------------- UI Primitives --------------
 function Card({ children }: { children: React.ReactNode }) {
   return (
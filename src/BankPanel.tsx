@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { type BankQuestion, QUESTION_TYPES } from "./schema.ts";
+import { type BankFilter, EMPTY_FILTER, matchesFilter } from "./bank.ts";
+
+// QPaper Forge — question bank browser
+// Filters the bank by its tags and lets the user pick questions for the next paper.
+// Like LibraryPanel, it only renders; App owns the data and the Firestore writes.
+
+type Props = {
+  questions: BankQuestion[];
+  picked: Set<string>;
+  disabled?: boolean;
+  onTogglePick: (id: string) => void;
+  onDelete: (q: BankQuestion) => void;
+  onAssemble: () => void;
+};
+
+export default function BankPanel({ questions, picked, disabled, onTogglePick, onDelete, onAssemble }: Props) {
+  const [filter, setFilter] = useState<BankFilter>(EMPTY_FILTER);
+  const shown = questions.filter((q) => matchesFilter(q, filter));
+  const onFilter = <K extends keyof BankFilter>(key: K, val: BankFilter[K]) => setFilter((f) => ({ ...f, [key]: val }));
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-2">
+        <input className="inp" value={filter.subject} onChange={(e) => onFilter("subject", e.target.value)} placeholder="Subject" />
+        <input className="inp" value={filter.topic} onChange={(e) => onFilter("topic", e.target.value)} placeholder="Topic" />
+        <input className="inp" value={filter.grade} onChange={(e) => onFilter("grade", e.target.value)} placeholder="Grade" />
+        <input className="inp" value={filter.board} onChange={(e) => onFilter("board", e.target.value)} placeholder="Board" />
+        <select className="inp col-span-2" value={filter.type} onChange={(e) => onFilter("type", e.target.value as BankFilter["type"])}>
+          <option value="">All types</option>
+          {QUESTION_TYPES.map((t) => <option key={t} value={t}>{t.toUpperCase()}</option>)}
+        </select>
+      </div>
+
+      {shown.length ? (
+        <ul className="mt-3 space-y-2 max-h-96 overflow-y-auto">
+          {shown.map((q) => (
+            <li key={q.id} className={`rounded-xl border p-3 text-sm ${picked.has(q.id) ? "border-white/40 bg-white/10" : "border-white/10 bg-white/5"}`}>
+              <label className="flex gap-2 items-start cursor-pointer">
+                <input type="checkbox" className="mt-1" checked={picked.has(q.id)} onChange={() => onTogglePick(q.id)} disabled={disabled} />
+                <span className="line-clamp-3 whitespace-pre-wrap">{q.text}</span>
+              </label>
+              <div className="flex justify-between mt-1 text-xs opacity-70">
+                <span>
+                  {q.type.toUpperCase()}{q.marks ? ` • ${q.marks}m` : ""} • {q.subject} • {q.topic} • {q.grade}
+                  {q.usageCount ? ` • used ${q.usageCount}×` : ""}
+                </span>
+                <button className="underline text-red-300 hover:opacity-100 disabled:opacity-30" onClick={() => onDelete(q)} disabled={disabled}>
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-sm opacity-70">{questions.length ? "No bank questions match." : "Save questions from the preview to start your bank."}</p>
+      )}
+
+      <div className="flex items-center gap-3 mt-3">
+        <button className="btn" onClick={onAssemble} disabled={disabled || !picked.size}>Assemble paper</button>
+        <span className="text-xs opacity-70">{picked.size} picked; the model fills the rest of the blueprint</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useState } from "react";
+
+// QPaper Forge — importing papers
+// A JSON, text or Word file, or text pasted in. App does the reading and parsing (see
+// importPaper.ts) and opens the result in the preview.
+
+type Props = {
+  disabled?: boolean;
+  onFile: (file: File) => void;
+  onText: (text: string) => void;
+};
+
+export default function ImportPanel({ disabled, onFile, onText }: Props) {
+  const [text, setText] = useState("");
+
+  return (
+    <div className="space-y-3">
+      <label className={`btn ghost cursor-pointer inline-block ${disabled ? "opacity-50 pointer-events-none" : ""}`}>
+        Choose file (.json, .txt, .docx)
+        <input
+          type="file"
+          accept=".json,.txt,.docx,application/json,text/plain,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) onFile(file);
+          }}
+          disabled={disabled}
+        />
+      </label>
+      <textarea
+        className="inp min-h-24"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="…or paste a question paper here"
+        disabled={disabled}
+      />
+      <button className="btn ghost" onClick={() => onText(text)} disabled={disabled || !text.trim()}>
+        Import text
+      </button>
+      <p className="text-xs opacity-70">
+        Numbered questions with lettered options are read directly; anything else is structured by the AI, which counts as a generation.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import type { CognitiveDistribution } from "./blueprint.ts";
+import type { CognitiveLevel } from "./schema.ts";
+
+// QPaper Forge — cognitive level chart
+// Share of the paper's marks at each Bloom's level, and on competency-based questions, as
+// bars with the form's target marked on them.
+
+const LABELS: Record<CognitiveLevel, string> = {
+  remember: "Remember",
+  understand: "Understand",
+  apply: "Apply",
+  analyse: "Analyse",
+  evaluate: "Evaluate",
+  create: "Create",
+};
+
+// Within this many percentage points of the target counts as on target
+const TOLERANCE = 5;
+
+function Bar({ label, target, actual }: { label: string; target: number | null; actual: number }) {
+  const off = target !== null && Math.abs(actual - target) > TOLERANCE;
+  return (
+    <div className="grid grid-cols-[6rem_1fr_5.5rem] gap-3 items-center text-sm">
+      <span className="opacity-80">{label}</span>
+      <div className="relative h-3 rounded bg-white/10">
+        <div className={`h-3 rounded ${off ? "bg-amber-300/70" : "bg-white/60"}`} style={{ width: `${Math.min(100, actual)}%` }} />
+        {target !== null && <div className="absolute -top-1 h-5 w-0.5 bg-white" style={{ left: `${Math.min(100, target)}%` }} title={`Target ${target}%`} />}
+      </div>
+      <span className={`text-right tabular-nums ${off ? "text-amber-200" : "opacity-80"}`}>
+        {actual}%{target !== null && <span className="opacity-60"> / {target}%</span>}
+      </span>
+    </div>
+  );
+}
+
+export default function LevelChart({ distribution }: { distribution: CognitiveDistribution }) {
+  const { levels, untagged, competencyBased } = distribution;
+  return (
+    <div className="space-y-2">
+      {levels.map((l) => (
+        <Bar key={l.level} label={LABELS[l.level]} target={l.target} actual={l.actual} />
+      ))}
+      <div className="pt-2 border-t border-white/10">
+        <Bar label="Competency" target={competencyBased.target} actual={competencyBased.actual} />
+      </div>
+      {untagged > 0 && <p className="text-xs opacity-70">{untagged}% of the marks are on questions without a level.</p>}
+    </div>
+  );
+}
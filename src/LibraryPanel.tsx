@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { type SavedPaper, matchesSearch } from "./library.ts";
+
+// QPaper Forge — list of saved papers with search and per-paper actions
+// Purely presentational: App owns the Firestore subscription and the writes.
+
+type Props = {
+  papers: SavedPaper[];
+  currentId: string | null;
+  disabled?: boolean;
+  onOpen: (entry: SavedPaper) => void;
+  onDuplicate: (entry: SavedPaper) => void;
+  onRename: (entry: SavedPaper, title: string) => void;
+  onDelete: (entry: SavedPaper) => void;
+};
+
+const formatDate = (d: Date) => d.toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+
+export default function LibraryPanel({ papers, currentId, disabled, onOpen, onDuplicate, onRename, onDelete }: Props) {
+  const [search, setSearch] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+
+  const shown = papers.filter((p) => matchesSearch(p, search));
+
+  const commitRename = (entry: SavedPaper) => {
+    const title = renaming?.title.trim();
+    if (title && title !== entry.title) onRename(entry, title);
+    setRenaming(null);
+  };
+
+  return (
+    <div>
+      <input className="inp" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search by subject, topic or grade" />
+      {shown.length ? (
+        <ul className="mt-3 space-y-2 max-h-96 overflow-y-auto">
+          {shown.map((entry) => (
+            <li key={entry.id} className={`rounded-xl border p-3 ${entry.id === currentId ? "border-white/40 bg-white/10" : "border-white/10 bg-white/5"}`}>
+              {renaming?.id === entry.id ? (
+                <input
+                  className="inp"
+                  autoFocus
+                  value={renaming.title}
+                  onChange={(e) => setRenaming({ id: entry.id, title: e.target.value })}
+                  onBlur={() => commitRename(entry)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename(entry);
+                    if (e.key === "Escape") setRenaming(null);
+                  }}
+                />
+              ) : (
+                <div className="font-medium text-sm">{entry.title}</div>
+              )}
+              <div className="text-xs opacity-70 mt-1">
+                {entry.paper.metadata.board} • {entry.paper.metadata.grade} • {formatDate(entry.updatedAt)}
+              </div>
+              <div className="flex gap-3 mt-2 text-xs">
+                <button className="underline opacity-80 hover:opacity-100 disabled:opacity-30" onClick={() => onOpen(entry)} disabled={disabled || entry.id === currentId}>
+                  Open
+                </button>
+                <button className="underline opacity-80 hover:opacity-100 disabled:opacity-30" onClick={() => onDuplicate(entry)} disabled={disabled}>
+                  Duplicate
+                </button>
+                <button className="underline opacity-80 hover:opacity-100 disabled:opacity-30" onClick={() => setRenaming({ id: entry.id, title: entry.title })} disabled={disabled}>
+                  Rename
+                </button>
+                <button
+                  className="underline text-red-300 opacity-80 hover:opacity-100 disabled:opacity-30"
+                  onClick={() => window.confirm(`Delete "${entry.title}"? This can't be undone.`) && onDelete(entry)}
+                  disabled={disabled}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-sm opacity-70">{papers.length ? "No saved papers match." : "Papers you generate are saved here automatically."}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { useEffect, useMemo, useState } from "react";
+import { loadMath, renderMathSync, splitMath } from "./math.ts";
+
+// QPaper Forge — question text with its formulas typeset
+// Shows the raw TeX until MathJax has loaded, then swaps in the SVGs.
+
+export default function MathText({ text, className }: { text: string; className?: string }) {
+  const segments = useMemo(() => splitMath(text), [text]);
+  const needsMath = segments.some((s) => s.kind === "math");
+  const [, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!needsMath) return;
+    let live = true;
+    loadMath()
+      .then(() => live && setLoaded(true))
+      .catch((e) => console.warn("Could not load MathJax:", e));
+    return () => {
+      live = false;
+    };
+  }, [needsMath]);
+
+  return (
+    <span className={className}>
+      {segments.map((seg, i) => {
+        if (seg.kind === "text") return seg.value;
+        const rendered = renderMathSync(seg.tex, seg.display);
+        if (!rendered) return <code key={i}>{seg.display ? `$$${seg.tex}$$` : `$${seg.tex}$`}</code>;
+        return (
+          <span
+            key={i}
+            className={seg.display ? "block my-2 text-center" : "inline-block"}
+            // MathJax output: generated from the TeX, no markup from the model passes through
+            dangerouslySetInnerHTML={{ __html: rendered.svg }}
+          />
+        );
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { type CognitiveLevel, type Difficulty, type MarkingStep, type PaperJSON, type Question, type QuestionType, type Translation, COGNITIVE_LEVELS, DIFFICULTIES, QUESTION_TYPES } from "./schema.ts";
+import { scaleMarkingScheme } from "./blueprint.ts";
+
+// QPaper Forge — inline editor for a generated paper
+// Works directly on PaperJSON, so whatever is edited here is exactly what the exports see.
+
+type Section = PaperJSON["structure"]["sections"][number];
+type DragItem = { kind: "section"; si: number } | { kind: "question"; si: number; qi: number };
+
+const uid = () => `q-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// -------------- Edit operations --------------
+function withSections(paper: PaperJSON, sections: Section[]): PaperJSON {
+  return { ...paper, structure: { ...paper.structure, sections } };
+}
+
+function updateSection(paper: PaperJSON, si: number, patch: Partial<Section>): PaperJSON {
+  return withSections(paper, paper.structure.sections.map((s, i) => (i === si ? { ...s, ...patch } : s)));
+}
+
+function updateQuestion(paper: PaperJSON, si: number, qi: number, patch: Partial<Question>): PaperJSON {
+  const sec = paper.structure.sections[si];
+  return updateSection(paper, si, { questions: sec.questions.map((q, i) => (i === qi ? { ...q, ...patch } : q)) });
+}
+
+function changeType(q: Question, type: QuestionType): Partial<Question> {
+  const t = q.translation;
+  if (type === "mcq") {
+    const options = q.options?.length ? q.options : ["", "", "", ""];
+    return { type, options, translation: t && { ...t, options: t.options?.length ? t.options : options.map(() => "") } };
+  }
+  return { type, options: undefined, translation: t && { ...t, options: undefined } };
+}
+
+function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+// Moving or deleting the last question of a section deletes the section as well, since
+// validation rejects empty sections
+function moveQuestion(paper: PaperJSON, from: { si: number; qi: number }, to: { si: number; qi: number }): PaperJSON {
+  const sections = paper.structure.sections.map((s) => ({ ...s, questions: [...s.questions] }));
+  if (from.si === to.si) {
+    sections[to.si].questions = moveItem(sections[to.si].questions, from.qi, Math.min(to.qi, sections[to.si].questions.length - 1));
+  } else {
+    const [q] = sections[from.si].questions.splice(from.qi, 1);
+    sections[to.si].questions.splice(to.qi, 0, q);
+  }
+  return withSections(paper, sections.filter((s) => s.questions.length > 0));
+}
+
+function removeQuestion(paper: PaperJSON, si: number, qi: number): PaperJSON {
+  const questions = paper.structure.sections[si].questions.filter((_, i) => i !== qi);
+  return questions.length ? updateSection(paper, si, { questions }) : withSections(paper, paper.structure.sections.filter((_, i) => i !== si));
+}
+
+function newQuestion(type: QuestionType = "short"): Question {
+  return { id: uid(), type, text: "", ...(type === "mcq" ? { options: ["", "", "", ""] } : {}) };
+}
+
+// -------------- Component --------------
+export default function PaperEditor({
+  paper,
+  units,
+  onChange,
+}: {
+  paper: PaperJSON;
+  units?: string[]; // unit names, on papers planned by unit
+  onChange: (next: PaperJSON, coalesceKey?: string) => void;
+}) {
+  const [drag, setDrag] = useState<DragItem | null>(null);
+  const sections = paper.structure.sections;
+
+  const dropOnSection = (si: number) => {
+    if (drag?.kind === "section" && drag.si !== si) onChange(withSections(paper, moveItem(sections, drag.si, si)));
+    if (drag?.kind === "question") onChange(moveQuestion(paper, drag, { si, qi: sections[si].questions.length }));
+    setDrag(null);
+  };
+
+  const dropOnQuestion = (si: number, qi: number) => {
+    if (drag?.kind !== "question") return;
+    onChange(moveQuestion(paper, drag, { si, qi }));
+    setDrag(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      {sections.map((sec, si) => (
+        <div
+          key={si}
+          className={`rounded-2xl border bg-white/5 p-4 ${drag?.kind === "section" && drag.si !== si ? "border-white/30 border-dashed" : "border-white/10"}`}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.stopPropagation();
+            dropOnSection(si);
+          }}
+        >
+          <div className="flex items-center gap-2 mb-2">
+            <span
+              draggable
+              onDragStart={() => setDrag({ kind: "section", si })}
+              onDragEnd={() => setDrag(null)}
+              className="cursor-grab select-none opacity-60"
+              title="Drag to reorder section"
+            >
+              ⠿
+            </span>
+            <span className="font-semibold">{si + 1}.</span>
+            <input
+              className="inp font-semibold"
+              value={sec.title}
+              onChange={(e) => onChange(updateSection(paper, si, { title: e.target.value }), `s${si}.title`)}
+            />
+            <button
+              className="btn ghost text-xs"
+              onClick={() => onChange(withSections(paper, sections.filter((_, i) => i !== si)))}
+              disabled={sections.length === 1}
+              title={sections.length === 1 ? "A paper needs at least one section" : "Delete section"}
+            >
+              Delete
+            </button>
+          </div>
+          <textarea
+            className="inp text-sm italic mb-3 min-h-10"
+            placeholder="Section instructions (optional)"
+            value={sec.instructions ?? ""}
+            onChange={(e) => onChange(updateSection(paper, si, { instructions: e.target.value || undefined }), `s${si}.instructions`)}
+          />
+
+          <ol className="space-y-4">
+            {sec.questions.map((q, qi) => (
+              <li
+                key={q.id}
+                className="rounded-xl border border-white/10 p-3"
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.stopPropagation();
+                  dropOnQuestion(si, qi);
+                }}
+              >
+                <QuestionEditor
+                  q={q}
+                  label={`${qi + 1}.`}
+                  secondLanguage={paper.metadata.secondLanguage}
+                  units={units}
+                  onDragStart={() => setDrag({ kind: "question", si, qi })}
+                  onDragEnd={() => setDrag(null)}
+                  onChange={(patch, field) => onChange(updateQuestion(paper, si, qi, patch), field && `${q.id}.${field}`)}
+                  onDelete={() => onChange(removeQuestion(paper, si, qi))}
+                  canDelete={sections.length > 1 || sec.questions.length > 1}
+                />
+              </li>
+            ))}
+          </ol>
+          <button
+            className="btn ghost text-xs mt-3"
+            onClick={() => onChange(updateSection(paper, si, { questions: [...sec.questions, newQuestion(sec.questions.at(-1)?.type)] }))}
+          >
+            + Add question
+          </button>
+        </div>
+      ))}
+      <button
+        className="btn ghost"
+        onClick={() => onChange(withSections(paper, [...sections, { title: "New Section", questions: [newQuestion()] }]))}
+      >
+        + Add section
+      </button>
+    </div>
+  );
+}
+
+function QuestionEditor({
+  q,
+  label,
+  secondLanguage,
+  units,
+  onChange,
+  onDelete,
+  canDelete,
+  onDragStart,
+  onDragEnd,
+}: {
+  q: Question;
+  label: string;
+  secondLanguage?: string;
+  units?: string[];
+  onChange: (patch: Partial<Question>, field?: string) => void;
+  onDelete: () => void;
+  canDelete: boolean; // false for the paper's only question
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span draggable onDragStart={onDragStart} onDragEnd={onDragEnd} className="cursor-grab select-none opacity-60" title="Drag to reorder">
+          ⠿
+        </span>
+        <strong>{label}</strong>
+        <select className="inp !w-auto" value={q.type} onChange={(e) => onChange(changeType(q, e.target.value as QuestionType))}>
+          {QUESTION_TYPES.map((t) => (
+            <option key={t} value={t}>{t.toUpperCase()}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          className="inp !w-20"
+          placeholder="Marks"
+          value={q.marks ?? ""}
+          onChange={(e) => {
+            const marks = e.target.value ? Number(e.target.value) : undefined;
+            onChange({ marks, markingScheme: scaleMarkingScheme(q.markingScheme, marks) }, "marks");
+          }}
+        />
+        <select
+          className="inp !w-auto"
+          value={q.difficulty ?? ""}
+          onChange={(e) => onChange({ difficulty: (e.target.value || undefined) as Difficulty | undefined })}
+        >
+          <option value="">—</option>
+          {DIFFICULTIES.map((d) => (
+            <option key={d} value={d}>{d}</option>
+          ))}
+        </select>
+        <select
+          className="inp !w-auto"
+          value={q.cognitiveLevel ?? ""}
+          onChange={(e) => onChange({ cognitiveLevel: (e.target.value || undefined) as CognitiveLevel | undefined })}
+          title="Bloom's level"
+        >
+          <option value="">Level —</option>
+          {COGNITIVE_LEVELS.map((l) => (
+            <option key={l} value={l}>{l}</option>
+          ))}
+        </select>
+        <label className="flex gap-1 items-center text-xs cursor-pointer">
+          <input type="checkbox" checked={!!q.competencyBased} onChange={(e) => onChange({ competencyBased: e.target.checked || undefined })} />
+          Competency
+        </label>
+        {units?.length ? (
+          <select className="inp !w-auto" value={q.unit ?? ""} onChange={(e) => onChange({ unit: e.target.value || undefined })}>
+            <option value="">No unit</option>
+            {units.map((u) => (
+              <option key={u} value={u}>{u}</option>
+            ))}
+          </select>
+        ) : null}
+        <button className="btn ghost text-xs ml-auto" onClick={onDelete} disabled={!canDelete} title={canDelete ? undefined : "A paper needs at least one question"}>
+          Delete
+        </button>
+      </div>
+      <textarea
+        className="inp min-h-16"
+        placeholder="Question text"
+        value={q.text}
+        onChange={(e) => onChange({ text: e.target.value }, "text")}
+      />
+      {q.type === "mcq" && (
+        <div className="space-y-1 ml-6">
+          {(q.options ?? []).map((opt, oi) => (
+            <div key={oi} className="flex items-center gap-2">
+              <span className="opacity-80 w-5">{String.fromCharCode(65 + oi)}.</span>
+              <input
+                className="inp"
+                value={opt}
+                onChange={(e) => onChange({ options: (q.options ?? []).map((o, i) => (i === oi ? e.target.value : o)) }, `option${oi}`)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      <input
+        className="inp text-sm"
+        placeholder="Answer (optional)"
+        value={q.answer ?? ""}
+        onChange={(e) => onChange({ answer: e.target.value || undefined }, "answer")}
+      />
+      {(q.type === "long" || q.type === "numerical" || q.markingScheme?.length) && (
+        <MarkingSchemeEditor steps={q.markingScheme ?? []} marks={q.marks} onChange={(steps, field) => onChange({ markingScheme: steps.length ? steps : undefined }, field)} />
+      )}
+      {secondLanguage && <TranslationEditor q={q} language={secondLanguage} onChange={onChange} />}
+    </div>
+  );
+}
+
+// The second-language version of a question; options stay aligned with the originals
+function TranslationEditor({
+  q,
+  language,
+  onChange,
+}: {
+  q: Question;
+  language: string;
+  onChange: (patch: Partial<Question>, field?: string) => void;
+}) {
+  const t: Translation = q.translation ?? { text: "", options: q.options?.map(() => "") };
+  const update = (patch: Partial<Translation>, field: string) => onChange({ translation: { ...t, ...patch } }, `translation.${field}`);
+
+  return (
+    <div className="space-y-2 border-l-2 border-white/15 pl-3">
+      <div className="text-xs opacity-70">{language}</div>
+      <textarea className="inp min-h-16" placeholder={`Question text in ${language}`} value={t.text} onChange={(e) => update({ text: e.target.value }, "text")} />
+      {q.type === "mcq" && (
+        <div className="space-y-1 ml-6">
+          {(q.options ?? []).map((_, oi) => (
+            <div key={oi} className="flex items-center gap-2">
+              <span className="opacity-80 w-5">{String.fromCharCode(65 + oi)}.</span>
+              <input
+                className="inp"
+                value={t.options?.[oi] ?? ""}
+                onChange={(e) => update({ options: (q.options ?? []).map((_, i) => (i === oi ? e.target.value : t.options?.[i] ?? "")) }, `option${oi}`)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      {q.type !== "mcq" && (
+        <input
+          className="inp text-sm"
+          placeholder={`Answer in ${language} (optional)`}
+          value={t.answer ?? ""}
+          onChange={(e) => update({ answer: e.target.value || undefined }, "answer")}
+        />
+      )}
+    </div>
+  );
+}
+
+// Steps follow the question's marks when those change (scaleMarkingScheme); a mismatch left
+// after editing either one is pointed out under the steps
+function MarkingSchemeEditor({
+  steps,
+  marks,
+  onChange,
+}: {
+  steps: MarkingStep[];
+  marks?: number;
+  onChange: (steps: MarkingStep[], field?: string) => void;
+}) {
+  const update = (i: number, patch: Partial<MarkingStep>, field: string) =>
+    onChange(steps.map((st, j) => (j === i ? { ...st, ...patch } : st)), `step${i}.${field}`);
+  const total = steps.reduce((n, st) => n + (st.marks || 0), 0);
+
+  return (
+    <div className="ml-6 space-y-1 text-sm">
+      <div className="text-xs opacity-70">Marking scheme</div>
+      {steps.map((st, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <input className="inp" placeholder="Marking point" value={st.step} onChange={(e) => update(i, { step: e.target.value }, "step")} />
+          <input
+            type="number"
+            min={1}
+            className="inp !w-20"
+            value={st.marks}
+            onChange={(e) => update(i, { marks: Number(e.target.value) }, "marks")}
+          />
+          <button className="btn ghost text-xs" onClick={() => onChange(steps.filter((_, j) => j !== i))} title="Remove step">×</button>
+        </div>
+      ))}
+      {steps.length > 0 && marks && total !== marks ? (
+        <p className="text-xs text-amber-200">Steps add up to {total} mark{total === 1 ? "" : "s"}, but the question carries {marks}.</p>
+      ) : null}
+      <button className="btn ghost text-xs" onClick={() => onChange([...steps, { step: "", marks: 1 }])}>+ Add step</button>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import type { SavedPreset } from "./presets.ts";
+
+// QPaper Forge — saved exam presets
+// Picks, saves and deletes named copies of the Exam Details form. App owns the presets and
+// the form; this only renders the controls.
+
+type Props = {
+  saved: SavedPreset[];
+  currentId: string | null;
+  disabled?: boolean;
+  onApply: (entry: SavedPreset) => void;
+  onSaveNew: (name: string) => void;
+  onUpdate: () => void;
+  onDelete: (entry: SavedPreset) => void;
+};
+
+export default function PresetBar({ saved, currentId, disabled, onApply, onSaveNew, onUpdate, onDelete }: Props) {
+  const current = saved.find((p) => p.id === currentId) ?? null;
+
+  return (
+    <div className="flex flex-wrap gap-2 items-center">
+      <select
+        className="inp flex-1 min-w-[12rem]"
+        value={currentId ?? ""}
+        onChange={(e) => {
+          const entry = saved.find((p) => p.id === e.target.value);
+          if (entry) onApply(entry);
+        }}
+        disabled={disabled}
+      >
+        <option value="" disabled>{saved.length ? "Saved presets…" : "No saved presets yet"}</option>
+        {saved.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      <button className="btn ghost" onClick={onUpdate} disabled={disabled || !current}>
+        Update{current ? ` "${current.name}"` : ""}
+      </button>
+      <button
+        className="btn ghost"
+        onClick={() => {
+          const name = window.prompt("Preset name", "My exam preset")?.trim();
+          if (name) onSaveNew(name);
+        }}
+        disabled={disabled}
+      >
+        Save as preset
+      </button>
+      {current && (
+        <button
+          className="text-xs underline text-red-300 opacity-80 hover:opacity-100 disabled:opacity-30"
+          onClick={() => window.confirm(`Delete preset "${current.name}"?`) && onDelete(current)}
+          disabled={disabled}
+        >
+          Delete
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { type QuizResponse, type SavedQuiz, quizLink, quizResults } from "./quiz.ts";
+
+// QPaper Forge — published quizzes and their results
+// Publishes the current paper, shares its link and shows how students did: scores per
+// student and, per question, how many got it right. App owns the subscriptions.
+
+type Props = {
+  quizzes: SavedQuiz[];
+  currentId: string | null;
+  responses: QuizResponse[]; // of the current quiz
+  canPublish: boolean;
+  disabled?: boolean;
+  onPublish: () => void;
+  onSelect: (id: string) => void;
+  onSetOpen: (quiz: SavedQuiz, open: boolean) => void;
+};
+
+const formatTime = (d: Date) => d.toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+
+export default function QuizPanel({ quizzes, currentId, responses, canPublish, disabled, onPublish, onSelect, onSetOpen }: Props) {
+  const [copied, setCopied] = useState(false);
+  const current = quizzes.find((q) => q.id === currentId) ?? null;
+
+  const copyLink = (id: string) => {
+    navigator.clipboard.writeText(quizLink(id)).then(
+      () => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      },
+      () => window.prompt("Copy the quiz link", quizLink(id)),
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <button className="btn" onClick={onPublish} disabled={disabled || !canPublish}>Publish paper as quiz</button>
+      <p className="text-xs opacity-70">Students get one question at a time against the paper's time limit. MCQ and numerical answers are graded automatically.</p>
+
+      {quizzes.length > 0 && (
+        <select className="inp" value={currentId ?? ""} onChange={(e) => onSelect(e.target.value)}>
+          <option value="" disabled>Published quizzes…</option>
+          {quizzes.map((q) => <option key={q.id} value={q.id}>{q.title} • {formatTime(q.createdAt)}{q.open ? "" : " (closed)"}</option>)}
+        </select>
+      )}
+
+      {current && (
+        <>
+          <div className="flex gap-2">
+            <input className="inp" readOnly value={quizLink(current.id)} onFocus={(e) => e.target.select()} />
+            <button className="btn ghost" onClick={() => copyLink(current.id)}>{copied ? "Copied" : "Copy"}</button>
+          </div>
+          <label className="flex gap-2 items-center text-sm cursor-pointer">
+            <input type="checkbox" checked={current.open} onChange={(e) => onSetOpen(current, e.target.checked)} disabled={disabled} />
+            Open to students ({current.timeLimitMinutes} min)
+          </label>
+          <Results quiz={current} responses={responses} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function Results({ quiz, responses }: { quiz: SavedQuiz; responses: QuizResponse[] }) {
+  const results = quizResults(quiz.paper, responses, quiz.timeLimitMinutes);
+  const done = results.students.filter((s) => s.status !== "in progress");
+  if (!results.students.length) return <p className="text-sm opacity-70">No one has started this quiz yet.</p>;
+
+  const average = done.length ? done.reduce((n, s) => n + s.score, 0) / done.length : 0;
+  const pct = (n: number, of: number) => (of ? Math.round((n / of) * 100) : 0);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        {done.length} finished{results.students.length > done.length && `, ${results.students.length - done.length} in progress`}
+        {done.length > 0 && ` • average ${average.toFixed(1)} / ${results.outOf}`}
+      </p>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs opacity-70">
+            <th className="font-normal pb-1">Student</th>
+            <th className="font-normal pb-1 text-right">Score</th>
+            <th className="font-normal pb-1 text-right">Answered</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.students.map((s) => (
+            <tr key={s.id} className="border-t border-white/10" title={s.submittedAt ? `Submitted ${formatTime(s.submittedAt)}` : s.status === "timed out" ? "Time ran out before submitting" : "Still taking the quiz"}>
+              <td className="py-1">
+                {s.name}
+                {s.status === "timed out" && <span className="ml-1 text-xs text-amber-200">timed out</span>}
+              </td>
+              <td className="py-1 text-right">{s.status !== "in progress" ? `${s.score} / ${results.outOf}` : <span className="opacity-60">In progress</span>}</td>
+              <td className="py-1 text-right opacity-80">{s.answered} / {results.questions.length}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {done.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs opacity-70">Correct answers per question</div>
+          {results.questions.map((q) => (
+            <div key={q.id} className="flex items-center gap-2 text-xs">
+              <span className="w-10">{q.label}</span>
+              <span className="w-16 opacity-70">{q.type.toUpperCase()}</span>
+              {q.gradable ? (
+                <>
+                  <div className="flex-1 h-2 rounded bg-white/10">
+                    <div className="h-2 rounded bg-emerald-400/70" style={{ width: `${pct(q.correct, q.submitted)}%` }} />
+                  </div>
+                  <span className="w-20 text-right">{pct(q.correct, q.submitted)}% ({q.correct}/{q.submitted})</span>
+                </>
+              ) : (
+                <span className="flex-1 opacity-60">{q.answered} written answer{q.answered === 1 ? "" : "s"}, to mark by hand</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { type ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import type { Firestore } from "firebase/firestore";
+import { optionLetter } from "./schema.ts";
+import { type Quiz, type QuizAnswers, type QuizResponse, responseDeadline, saveAnswers, startAttempt, submitAttempt, subscribeQuiz, subscribeResponse } from "./quiz.ts";
+import MathText from "./MathText.tsx";
+
+// QPaper Forge — taking a published quiz
+// What a student sees at a ?quiz= link: their name, then one question at a time against the
+// countdown. Answers are saved as they go and submitted when the student is done or the time
+// runs out, whichever comes first.
+
+type Props = {
+  db: Firestore | undefined;
+  userId: string | null;
+  quizId: string;
+};
+
+const formatRemaining = (ms: number) => {
+  const s = Math.ceil(ms / 1000);
+  const mm = String(Math.floor((s % 3600) / 60)).padStart(2, "0");
+  const ss = String(s % 60).padStart(2, "0");
+  return s >= 3600 ? `${Math.floor(s / 3600)}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+export default function QuizTaker({ db, userId, quizId }: Props) {
+  const [quiz, setQuiz] = useState<Quiz | null | undefined>(undefined); // undefined while loading
+  const [response, setResponse] = useState<QuizResponse | null | undefined>(undefined);
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+  const answersRef = useRef<QuizAnswers>({});
+  const savedRef = useRef<QuizAnswers>({}); // what Firestore has, so only changes are written
+  // Answers changed since the last save
+  const unsaved = () => Object.fromEntries(Object.entries(answersRef.current).filter(([id, v]) => savedRef.current[id] !== v));
+  const [index, setIndex] = useState(0);
+  const [name, setName] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!db) return;
+    return subscribeQuiz(db, quizId, setQuiz, (e) => setError(`Could not load the quiz: ${e.message}`));
+  }, [db, quizId]);
+
+  // Answers saved before a reload come back once; after that the local copy leads
+  useEffect(() => {
+    if (!db || !userId) return;
+    let seeded = false;
+    return subscribeResponse(db, quizId, userId, (r) => {
+      setResponse(r);
+      if (r && !seeded) {
+        seeded = true;
+        answersRef.current = r.answers;
+        savedRef.current = r.answers;
+        setAnswers(r.answers);
+      }
+    }, (e) => setError(`Could not load your answers: ${e.message}`));
+  }, [db, quizId, userId]);
+
+  const questions = useMemo(
+    () => quiz?.paper.structure.sections.flatMap((s) => s.questions.map((q) => ({ q, section: s.title }))) ?? [],
+    [quiz],
+  );
+  const started = !!response;
+  const submitted = !!response?.submittedAt;
+  const deadline = quiz && response ? response.startedAt.getTime() + quiz.timeLimitMinutes * 60_000 : null;
+  // Past this the rules refuse any more writes, so there is nothing left to submit
+  const closedAt = quiz && response ? responseDeadline(response, quiz.timeLimitMinutes).getTime() : null;
+
+  // Ticks the countdown and submits when it reaches zero
+  useEffect(() => {
+    if (!db || !userId || deadline === null || closedAt === null || submitted) return;
+    const firestore = db;
+    const tick = () => {
+      setNow(Date.now());
+      if (Date.now() < deadline) return;
+      clearInterval(timer);
+      if (Date.now() < closedAt) submitAttempt(firestore, quizId, userId, unsaved()).catch((e) => setError(`Could not submit: ${(e as Error).message}`));
+    };
+    const timer = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(timer);
+  }, [db, quizId, userId, deadline, closedAt, submitted]);
+
+  // Saved a moment after typing stops, like the library
+  useEffect(() => {
+    if (!db || !userId || !started || submitted) return;
+    const firestore = db;
+    const timer = setTimeout(() => {
+      const changed = unsaved();
+      saveAnswers(firestore, quizId, userId, changed)
+        .then(() => (savedRef.current = { ...savedRef.current, ...changed }))
+        .catch((e) => setError(`Could not save your answer: ${(e as Error).message}`));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [answers, db, quizId, userId, started, submitted]);
+
+  const setAnswer = (id: string, value: string) => {
+    answersRef.current = { ...answersRef.current, [id]: value };
+    setAnswers(answersRef.current);
+  };
+
+  const handleStart = () => {
+    if (!db || !userId || !name.trim()) return;
+    startAttempt(db, quizId, userId, name.trim()).catch((e) => setError(`Could not start the quiz: ${(e as Error).message}`));
+  };
+
+  const handleSubmit = () => {
+    if (!db || !userId) return;
+    const left = questions.filter(({ q }) => !answers[q.id]?.trim()).length;
+    if (left && !window.confirm(`${left} question${left === 1 ? " is" : "s are"} unanswered. Submit anyway?`)) return;
+    submitAttempt(db, quizId, userId, unsaved()).catch((e) => setError(`Could not submit: ${(e as Error).message}`));
+  };
+
+  let body: ReactNode;
+  if (!db) body = <p>Quizzes need Firebase, which isn't configured for this app.</p>;
+  else if (quiz === undefined || response === undefined) body = <p className="opacity-70">Loading…</p>;
+  else if (quiz === null) body = <p>This quiz doesn't exist. Check the link with your teacher.</p>;
+  else if (!questions.length) body = <p>This quiz has no questions. Check with your teacher.</p>;
+  else if (submitted) {
+    const answered = questions.filter(({ q }) => answers[q.id]?.trim()).length;
+    body = <p>Your answers have been submitted ({answered} of {questions.length} answered). You can close this page.</p>;
+  } else if (closedAt !== null && now >= closedAt) {
+    body = <p>Time is up. The answers you saved before then have been recorded.</p>;
+  } else if (!response) {
+    body = quiz.open ? (
+      <div className="space-y-3">
+        <p className="text-sm opacity-80">
+          {questions.length} questions • {quiz.timeLimitMinutes} minutes. The timer starts when you press Start and keeps running if you leave the page.
+        </p>
+        <label className="block">
+          <div className="mb-1 text-xs opacity-70">Your name</div>
+          <input className="inp" value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => e.key === "Enter" && handleStart()} />
+        </label>
+        <button className="btn" onClick={handleStart} disabled={!userId || !name.trim()}>Start</button>
+      </div>
+    ) : (
+      <p>This quiz is closed.</p>
+    );
+  } else {
+    const { q, section } = questions[index];
+    const given = answers[q.id] ?? "";
+    body = (
+      <div className="space-y-4">
+        <div className="flex justify-between items-center text-sm">
+          <span className="opacity-70">{section} • Question {index + 1} of {questions.length}{q.marks ? ` • ${q.marks} mark${q.marks === 1 ? "" : "s"}` : ""}</span>
+          <span className={`font-mono text-base ${deadline !== null && deadline - now < 60_000 ? "text-red-300" : ""}`}>
+            {deadline !== null && formatRemaining(Math.max(0, deadline - now))}
+          </span>
+        </div>
+        <div>
+          <MathText text={q.text} />
+          {q.translation && <div className="text-sm opacity-70 mt-1"><MathText text={q.translation.text} /></div>}
+        </div>
+        {q.type === "mcq" && q.options ? (
+          <div className="space-y-2">
+            {q.options.map((opt, oi) => (
+              <label key={oi} className="flex gap-2 items-start cursor-pointer">
+                <input type="radio" name={q.id} checked={given === optionLetter(oi)} onChange={() => setAnswer(q.id, optionLetter(oi))} className="mt-1" />
+                <span>
+                  ({optionLetter(oi)}) <MathText text={opt} />
+                  {q.translation?.options?.[oi] && <span className="opacity-70"> / <MathText text={q.translation.options[oi]} /></span>}
+                </span>
+              </label>
+            ))}
+          </div>
+        ) : q.type === "numerical" ? (
+          <input className="inp" inputMode="decimal" placeholder="Your answer (a number)" value={given} onChange={(e) => setAnswer(q.id, e.target.value)} />
+        ) : (
+          <textarea className="inp min-h-32" placeholder="Your answer; your teacher will mark it" value={given} onChange={(e) => setAnswer(q.id, e.target.value)} />
+        )}
+        <div className="flex flex-wrap gap-1">
+          {questions.map(({ q: other }, i) => (
+            <button
+              key={other.id}
+              className={`w-8 h-8 rounded-lg text-xs border ${i === index ? "border-white" : "border-white/20"} ${answers[other.id]?.trim() ? "bg-white/20" : ""}`}
+              onClick={() => setIndex(i)}
+            >
+              {i + 1}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          <button className="btn ghost" onClick={() => setIndex(index - 1)} disabled={index === 0}>Previous</button>
+          {index < questions.length - 1 && <button className="btn ghost" onClick={() => setIndex(index + 1)}>Next</button>}
+          <button className="btn ml-auto" onClick={handleSubmit}>Submit</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-950 to-black text-slate-100 selection:bg-white/20">
+      <div className="max-w-2xl mx-auto px-4 py-10">
+        <div className="rounded-3xl border border-white/10 bg-white/[0.06] backdrop-blur-2xl p-5 shadow-[0_10px_40px_rgba(0,0,0,0.35)]">
+          <div className="mb-4">
+            <div className="text-sm uppercase tracking-wider opacity-70">{quiz ? `${quiz.paper.metadata.subject} • ${quiz.paper.metadata.grade}` : "Quiz"}</div>
+            <h1 className="text-lg font-semibold -mt-1">{quiz?.title ?? "Online quiz"}</h1>
+          </div>
+          {error && <p className="mb-3 text-red-300 text-sm whitespace-pre-wrap">{error}</p>}
+          {body}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import type { FormState } from "./schema.ts";
+import { cascadeSyllabus, syllabusOptions } from "./syllabus.ts";
+
+// QPaper Forge — board, grade, subject and topic pickers
+// Dropdowns from the syllabus catalogue (syllabus.ts), each narrowing the next. "Other…"
+// switches a field to free text for anything the catalogue doesn't cover yet.
+
+type Props = {
+  form: FormState;
+  onChange: (form: FormState) => void;
+};
+
+const OTHER = "\u0000other";
+
+function Choice({ label, value, options, disabled, onChange }: { label: string; value: string; options: string[]; disabled?: boolean; onChange: (value: string) => void }) {
+  const [typing, setTyping] = useState(false);
+  const listed = options.includes(value);
+
+  return (
+    <label className="block">
+      <div className="mb-1 text-xs opacity-70 flex justify-between">
+        {label}
+        {options.length > 0 && !listed && (
+          <button
+            type="button"
+            className="underline opacity-80 hover:opacity-100"
+            onClick={() => {
+              setTyping(false);
+              onChange(options[0]);
+            }}
+            disabled={disabled}
+          >
+            Choose from list
+          </button>
+        )}
+      </div>
+      {options.length > 0 && listed && !typing ? (
+        <select
+          className="inp"
+          value={value}
+          onChange={(e) => {
+            if (e.target.value !== OTHER) onChange(e.target.value);
+            else {
+              setTyping(true);
+              onChange("");
+            }
+          }}
+          disabled={disabled}
+        >
+          {options.map((o) => <option key={o}>{o}</option>)}
+          <option value={OTHER}>Other…</option>
+        </select>
+      ) : (
+        <input className="inp" value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} autoFocus={typing} />
+      )}
+    </label>
+  );
+}
+
+export default function SyllabusFields({ form, onChange }: Props) {
+  const options = syllabusOptions(form);
+  return (
+    <>
+      <Choice label="Board" value={form.board} options={options.boards} onChange={(v) => onChange(cascadeSyllabus(form, "board", v))} />
+      <Choice label="Class/Grade" value={form.grade} options={options.grades} onChange={(v) => onChange(cascadeSyllabus(form, "grade", v))} />
+      <Choice label="Subject" value={form.subject} options={options.subjects} onChange={(v) => onChange(cascadeSyllabus(form, "subject", v))} />
+      <Choice label="Topic/Chapter" value={form.topic} options={options.chapters} disabled={!!form.units} onChange={(v) => onChange({ ...form, topic: v })} />
+    </>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { type AnswerSpace, type PdfTemplate, type SavedTemplate, ANSWER_SPACES, readLogo } from "./templates.ts";
+
+// QPaper Forge — PDF layout settings
+// Edits the template the exports use and manages saved templates. Like the other panels,
+// App owns the data; `saved` is null when there is no Firestore to save to.
+
+type Props = {
+  template: PdfTemplate;
+  saved: SavedTemplate[] | null;
+  currentId: string | null;
+  disabled?: boolean;
+  onChange: (template: PdfTemplate) => void;
+  onApply: (entry: SavedTemplate) => void;
+  onSaveNew: (name: string) => void;
+  onUpdate: () => void;
+  onDelete: (entry: SavedTemplate) => void;
+};
+
+const ANSWER_SPACE_LABELS: Record<AnswerSpace, string> = {
+  none: "None",
+  lines: "Ruled lines",
+  blank: "Blank space",
+};
+
+export default function TemplatePanel({ template, saved, currentId, disabled, onChange, onApply, onSaveNew, onUpdate, onDelete }: Props) {
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const set = <K extends keyof PdfTemplate>(key: K, val: PdfTemplate[K]) => onChange({ ...template, [key]: val });
+  const current = saved?.find((t) => t.id === currentId) ?? null;
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) return;
+    setLogoError(null);
+    try {
+      set("logo", await readLogo(file));
+    } catch (e) {
+      setLogoError(`Could not read that image: ${(e as Error).message}`);
+    }
+  };
+
+  const checkbox = (key: "rollNumberBox" | "candidateName" | "marksInMargin" | "pageNumbers", label: string) => (
+    <label className="flex gap-2 items-center text-sm cursor-pointer">
+      <input type="checkbox" checked={template[key]} onChange={(e) => set(key, e.target.checked)} />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      {saved && (
+        <div className="flex gap-2 items-center">
+          <select
+            className="inp"
+            value={currentId ?? ""}
+            onChange={(e) => {
+              const entry = saved.find((t) => t.id === e.target.value);
+              if (entry) onApply(entry);
+            }}
+            disabled={disabled}
+          >
+            <option value="" disabled>{saved.length ? "Saved templates…" : "No saved templates yet"}</option>
+            {saved.map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          {current && (
+            <button
+              className="text-xs underline text-red-300 opacity-80 hover:opacity-100 disabled:opacity-30"
+              onClick={() => window.confirm(`Delete template "${current.name}"?`) && onDelete(current)}
+              disabled={disabled}
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+
+      <label className="block">
+        <div className="mb-1 text-xs opacity-70">School name</div>
+        <input className="inp" value={template.schoolName} onChange={(e) => set("schoolName", e.target.value)} />
+      </label>
+      <label className="block">
+        <div className="mb-1 text-xs opacity-70">Address / second header line</div>
+        <input className="inp" value={template.schoolAddress} onChange={(e) => set("schoolAddress", e.target.value)} />
+      </label>
+      <div className="flex gap-3 items-center text-sm">
+        {template.logo && <img src={template.logo.png} alt="School logo" className="h-10 rounded bg-white p-1" />}
+        <label className="btn ghost cursor-pointer">
+          {template.logo ? "Change logo" : "Add logo"}
+          <input type="file" accept="image/*" className="hidden" onChange={(e) => handleLogo(e.target.files?.[0])} />
+        </label>
+        {template.logo && (
+          <button className="text-xs underline opacity-80 hover:opacity-100" onClick={() => set("logo", undefined)}>
+            Remove
+          </button>
+        )}
+      </div>
+      {logoError && <p className="text-xs text-red-300">{logoError}</p>}
+      <label className="block">
+        <div className="mb-1 text-xs opacity-70">General instructions (one per line)</div>
+        <textarea className="inp min-h-24" value={template.instructions} onChange={(e) => set("instructions", e.target.value)} />
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        {checkbox("rollNumberBox", "Roll number box")}
+        {checkbox("candidateName", "Candidate name")}
+        {checkbox("marksInMargin", "Marks in margin")}
+        {checkbox("pageNumbers", "Page X of Y")}
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="block">
+          <div className="mb-1 text-xs opacity-70">Roll no. digits</div>
+          <input
+            type="number"
+            min={1}
+            max={15}
+            className="inp"
+            value={template.rollNumberDigits}
+            onChange={(e) => set("rollNumberDigits", Math.min(15, Math.max(1, Number(e.target.value) || 1)))}
+            disabled={!template.rollNumberBox}
+          />
+        </label>
+        <label className="block">
+          <div className="mb-1 text-xs opacity-70">Answer space</div>
+          <select className="inp" value={template.answerSpace} onChange={(e) => set("answerSpace", e.target.value as AnswerSpace)}>
+            {ANSWER_SPACES.map((s) => <option key={s} value={s}>{ANSWER_SPACE_LABELS[s]}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <div className="mb-1 text-xs opacity-70">Lines per mark</div>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            className="inp"
+            value={template.linesPerMark}
+            onChange={(e) => set("linesPerMark", Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+            disabled={template.answerSpace === "none"}
+          />
+        </label>
+      </div>
+
+      {saved && (
+        <div className="flex gap-3">
+          <button className="btn ghost" onClick={onUpdate} disabled={disabled || !current}>
+            Update{current ? ` "${current.name}"` : ""}
+          </button>
+          <button
+            className="btn ghost"
+            onClick={() => {
+              const name = window.prompt("Template name", template.schoolName || "My template")?.trim();
+              if (name) onSaveNew(name);
+            }}
+            disabled={disabled}
+          >
+            Save as new
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
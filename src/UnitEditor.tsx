@@ -0,0 +1,91 @@
+import { type BlueprintUnit, type Difficulty, type QuestionType, DEFAULT_DIFFICULTY_SPLIT, DIFFICULTIES, QUESTION_TYPES, unitNameIssues } from "./schema.ts";
+
+// QPaper Forge — chapter-wise blueprint
+// Edits the units of a paper planned by unit: each with its marks weightage, questions per
+// type and difficulty split. The form's topic, counts and total marks follow from these
+// (withUnitTotals in schema.ts). Units without a name, or sharing one, are flagged here and
+// block generating (unitNameIssues).
+
+type Props = {
+  units: BlueprintUnit[];
+  chapters: string[]; // suggested unit names, from the syllabus catalogue
+  onChange: (units: BlueprintUnit[]) => void;
+};
+
+const TYPE_LABELS: Record<QuestionType, string> = { mcq: "MCQ", short: "Short", long: "Long", numerical: "Num." };
+
+const newUnit = (): BlueprintUnit => ({
+  name: "",
+  marks: 10,
+  counts: { mcq: 2, short: 2, long: 1, numerical: 0 },
+  difficulty: { ...DEFAULT_DIFFICULTY_SPLIT },
+});
+
+const num = (v: string, max: number) => Math.min(max, Math.max(0, Math.round(Number(v)) || 0));
+
+export default function UnitEditor({ units, chapters, onChange }: Props) {
+  const update = (i: number, patch: Partial<BlueprintUnit>) => onChange(units.map((u, j) => (j === i ? { ...u, ...patch } : u)));
+  const nameIssues = unitNameIssues(units);
+
+  return (
+    <div className="space-y-3">
+      <datalist id="unit-chapters">
+        {chapters.map((c) => <option key={c} value={c} />)}
+      </datalist>
+      {units.map((u, i) => {
+        const split = DIFFICULTIES.reduce((n, d) => n + u.difficulty[d], 0);
+        return (
+          <div key={i} className="rounded-xl border border-white/10 p-3 space-y-2">
+            <div className="flex gap-2 items-center">
+              <input
+                className={`inp ${nameIssues.has(i) ? "!border-amber-300/60" : ""}`}
+                placeholder="Unit or chapter"
+                list="unit-chapters"
+                value={u.name}
+                onChange={(e) => update(i, { name: e.target.value })}
+              />
+              <input
+                type="number"
+                min={1}
+                className="inp !w-20"
+                title="Marks"
+                value={u.marks}
+                onChange={(e) => update(i, { marks: Math.max(1, num(e.target.value, 500)) })}
+              />
+              <span className="text-xs opacity-70">marks</span>
+              <button className="btn ghost text-xs" onClick={() => onChange(units.filter((_, j) => j !== i))} disabled={units.length === 1} title="Remove unit">
+                ×
+              </button>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {QUESTION_TYPES.map((t) => (
+                <label key={t} className="block">
+                  <div className="mb-1 text-xs opacity-70">{TYPE_LABELS[t]}</div>
+                  <input type="number" min={0} className="inp" value={u.counts[t]} onChange={(e) => update(i, { counts: { ...u.counts, [t]: num(e.target.value, 50) } })} />
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {DIFFICULTIES.map((d: Difficulty) => (
+                <label key={d} className="block">
+                  <div className="mb-1 text-xs opacity-70 capitalize">{d} %</div>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="inp"
+                    value={u.difficulty[d]}
+                    onChange={(e) => update(i, { difficulty: { ...u.difficulty, [d]: num(e.target.value, 100) } })}
+                  />
+                </label>
+              ))}
+            </div>
+            {nameIssues.has(i) && <p className="text-xs text-amber-200">{nameIssues.get(i)}</p>}
+            {split !== 100 && <p className="text-xs text-amber-200">Difficulty split adds up to {split}%, not 100%.</p>}
+          </div>
+        );
+      })}
+      <button className="btn ghost text-xs" onClick={() => onChange([...units, newUnit()])}>+ Add unit</button>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+// QPaper Forge — question bank
+// Good questions harvested from any paper, tagged with where they came from, kept in
+// Firestore next to the paper library and reused when assembling new papers.
+
+import {
+  type Firestore,
+  type Unsubscribe,
+  collection,
+  deleteDoc,
+  doc,
+  increment,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { type BankQuestion, type PaperJSON, type Question, type QuestionType, QUESTION_TYPES } from './schema.ts';
+import { APP_ID } from './library.ts';
+
+export type BankTags = Pick<BankQuestion, "board" | "grade" | "subject" | "topic">;
+
+export type BankFilter = BankTags & { type: QuestionType | "" };
+
+export const EMPTY_FILTER: BankFilter = { board: "", grade: "", subject: "", topic: "", type: "" };
+
+// Private per user: artifacts/{appId}/users/{uid}/bank/{questionId}
+const bankCollection = (db: Firestore, userId: string) => collection(db, "artifacts", APP_ID, "users", userId, "bank");
+
+// On a paper planned by unit, a question is filed under its own unit rather than the paper's list of units
+export const tagsOf = (paper: PaperJSON, question?: Question): BankTags => {
+  const { board, grade, subject, topic } = paper.metadata;
+  return { board, grade, subject, topic: question?.unit || topic };
+};
+
+// Questions are compared by text; the same question saved twice would only clutter the bank
+export const normalizeText = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Returns the bank id straight away; like the library, writes are queued while offline
+export function saveToBank(db: Firestore, userId: string, question: Question, tags: BankTags): { id: string; written: Promise<void> } {
+  const ref = doc(bankCollection(db, userId));
+  const entry: BankQuestion = { ...question, ...tags, id: ref.id, usageCount: 0 };
+  return { id: ref.id, written: setDoc(ref, { ...entry, createdAt: serverTimestamp() }) };
+}
+
+export function deleteFromBank(db: Firestore, userId: string, id: string) {
+  return deleteDoc(doc(bankCollection(db, userId), id));
+}
+
+export function markUsed(db: Firestore, userId: string, ids: string[]) {
+  const batch = writeBatch(db);
+  for (const id of ids) batch.update(doc(bankCollection(db, userId), id), { usageCount: increment(1) });
+  return batch.commit();
+}
+
+export function subscribeBank(
+  db: Firestore,
+  userId: string,
+  onChange: (questions: BankQuestion[]) => void,
+  onError: (error: Error) => void,
+): Unsubscribe {
+  const q = query(bankCollection(db, userId), orderBy("createdAt", "desc"));
+  return onSnapshot(q, (snap) => {
+    onChange(snap.docs.map((d) => ({ ...(d.data() as BankQuestion), id: d.id })));
+  }, onError);
+}
+
+// Each tag filter is a case-insensitive substring match; empty filters match everything
+export function matchesFilter(q: BankQuestion, filter: BankFilter): boolean {
+  if (filter.type && q.type !== filter.type) return false;
+  return (["board", "grade", "subject", "topic"] as const).every((key) =>
+    q[key].toLowerCase().includes(filter[key].trim().toLowerCase()),
+  );
+}
+
+// Back to plain paper questions, in section order (MCQ first, as generated papers are).
+// Fields are copied one by one so tags and Firestore bookkeeping don't leak into the paper.
+export function toPaperQuestions(picked: BankQuestion[]): Question[] {
+  return [...picked]
+    .sort((a, b) => QUESTION_TYPES.indexOf(a.type) - QUESTION_TYPES.indexOf(b.type))
+    .map((q) => ({
+      id: q.id,
+      type: q.type,
+      text: q.text,
+      options: q.options,
+      answer: q.answer,
+      marks: q.marks,
+      difficulty: q.difficulty,
+      markingScheme: q.markingScheme,
+      translation: q.translation,
+      cognitiveLevel: q.cognitiveLevel,
+      competencyBased: q.competencyBased,
+    }));
+}
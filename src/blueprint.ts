@@ -0,0 +1,253 @@
+// QPaper Forge — blueprint checker
+// Compares a generated paper against the form it was generated from: question counts per
+// type, the marks total, on papers planned by unit each unit's weightage and difficulty split, and on papers
+// following a board pattern each section's shape. Mismatches are pinned to the section that holds them so the
+// preview can show them in place, and both can be fixed without regenerating the paper.
+
+import { type BlueprintUnit, type CognitiveLevel, type Difficulty, type FormState, type MarkingStep, type PaperJSON, type Question, type QuestionType, COGNITIVE_LEVELS, DIFFICULTIES, QUESTION_TYPES } from './schema.ts';
+
+export type BlueprintMismatch =
+  | { kind: "count"; sectionIndex: number | null; type: QuestionType; expected: number; actual: number }
+  | { kind: "unmarked"; sectionIndex: number; questionIndexes: number[] }
+  | { kind: "marks"; sectionIndex: null; expected: number; actual: number }
+  | { kind: "unit"; sectionIndex: null; unit: string; expected: number; actual: number }
+  | { kind: "untagged"; sectionIndex: number; questionIndexes: number[] }
+  | { kind: "pattern"; sectionIndex: number | null; title: string; expected: number; actual: number };
+
+export type BlueprintReport = {
+  ok: boolean;
+  totalMarks: { expected: number; actual: number };
+  byType: Array<{ type: QuestionType; expected: number; actual: number }>;
+  byUnit: Array<{ unit: string; expected: number; actual: number; questions: number; difficulty: UnitDifficulty }>; // empty unless planned by unit
+  cognitive: CognitiveDistribution;
+  sectionMarks: number[];
+  mismatches: BlueprintMismatch[];
+};
+
+// Relative weight of each type, used when a question has no marks of its own
+export const DEFAULT_TYPE_MARKS: Record<QuestionType, number> = { mcq: 1, short: 2, numerical: 3, long: 5 };
+
+const sum = (ns: number[]) => ns.reduce((a, b) => a + b, 0);
+
+export function sectionMarks(section: PaperJSON["structure"]["sections"][number]): number {
+  return sum(section.questions.map((q) => q.marks ?? 0));
+}
+
+// The section that holds most questions of a type; surplus/deficit of that type is reported there
+function homeSection(sections: PaperJSON["structure"]["sections"], type: QuestionType): number | null {
+  let best: number | null = null;
+  let bestCount = 0;
+  sections.forEach((sec, si) => {
+    const n = sec.questions.filter((q) => q.type === type).length;
+    if (n > bestCount) {
+      best = si;
+      bestCount = n;
+    }
+  });
+  return best;
+}
+
+// Shares of the paper's marks in percent, against the form's targets (null when it set none).
+// These are aims for the model rather than rules, so they are reported but never mismatches.
+export type CognitiveDistribution = {
+  levels: Array<{ level: CognitiveLevel; target: number | null; actual: number }>;
+  untagged: number; // percent of marks on questions without a level
+  competencyBased: { target: number | null; actual: number };
+};
+
+export function cognitiveDistribution(paper: PaperJSON, form: FormState): CognitiveDistribution {
+  const all = paper.structure.sections.flatMap((s) => s.questions);
+  const total = sum(all.map((q) => q.marks ?? 0));
+  const share = (qs: Question[]) => (total ? Math.round((100 * sum(qs.map((q) => q.marks ?? 0))) / total) : 0);
+  const targets = form.cognitiveTargets;
+  return {
+    levels: COGNITIVE_LEVELS.map((level) => ({ level, target: targets?.levels[level] ?? null, actual: share(all.filter((q) => q.cognitiveLevel === level)) })),
+    untagged: share(all.filter((q) => !q.cognitiveLevel)),
+    competencyBased: { target: targets?.competencyBased ?? null, actual: share(all.filter((q) => q.competencyBased)) },
+  };
+}
+
+// Each difficulty's share of a unit's questions in percent, against the unit's split. Like the
+// cognitive targets, a split is an aim for the model and never a mismatch.
+export type UnitDifficulty = Array<{ difficulty: Difficulty; target: number; actual: number }>;
+
+function unitDifficulty(questions: Question[], unit: BlueprintUnit): UnitDifficulty {
+  const share = (d: Difficulty) => (questions.length ? Math.round((100 * questions.filter((q) => q.difficulty === d).length) / questions.length) : 0);
+  return DIFFICULTIES.map((difficulty) => ({ difficulty, target: unit.difficulty[difficulty], actual: share(difficulty) }));
+}
+
+export function checkBlueprint(paper: PaperJSON, form: FormState): BlueprintReport {
+  const mismatches: BlueprintMismatch[] = [];
+  const all = paper.structure.sections.flatMap((s) => s.questions);
+
+  const byType = QUESTION_TYPES.map((type) => ({
+    type,
+    expected: form.counts[type],
+    actual: all.filter((q) => q.type === type).length,
+  }));
+  for (const t of byType) {
+    if (t.expected !== t.actual) mismatches.push({ kind: "count", sectionIndex: homeSection(paper.structure.sections, t.type), ...t });
+  }
+
+  paper.structure.sections.forEach((sec, si) => {
+    const questionIndexes = sec.questions.flatMap((q, qi) => (q.marks ? [] : [qi]));
+    if (questionIndexes.length) mismatches.push({ kind: "unmarked", sectionIndex: si, questionIndexes });
+  });
+
+  const perSection = paper.structure.sections.map(sectionMarks);
+  const totalMarks = { expected: form.totalMarks, actual: sum(perSection) };
+  if (totalMarks.expected !== totalMarks.actual) mismatches.push({ kind: "marks", sectionIndex: null, ...totalMarks });
+
+  const units = form.units ?? [];
+  const byUnit = units.map((u) => {
+    const questions = all.filter((q) => q.unit === u.name);
+    return { unit: u.name, expected: u.marks, actual: sum(questions.map((q) => q.marks ?? 0)), questions: questions.length, difficulty: unitDifficulty(questions, u) };
+  });
+  for (const u of byUnit) {
+    if (u.expected !== u.actual) mismatches.push({ kind: "unit", sectionIndex: null, unit: u.unit, expected: u.expected, actual: u.actual });
+  }
+  if (units.length) {
+    paper.structure.sections.forEach((sec, si) => {
+      const questionIndexes = sec.questions.flatMap((q, qi) => (units.some((u) => u.name === q.unit) ? [] : [qi]));
+      if (questionIndexes.length) mismatches.push({ kind: "untagged", sectionIndex: si, questionIndexes });
+    });
+  }
+
+  const pattern = form.pattern;
+  if (pattern) {
+    const sections = paper.structure.sections;
+    if (sections.length !== pattern.sections.length) mismatches.push({ kind: "pattern", sectionIndex: null, title: pattern.name, expected: pattern.sections.length, actual: sections.length });
+    pattern.sections.forEach((p, si) => {
+      const fitting = sections[si]?.questions.filter((q) => q.type === p.type && q.marks === p.marks).length ?? 0;
+      if (sections[si] && (fitting !== p.count || sections[si].questions.length !== p.count)) {
+        mismatches.push({ kind: "pattern", sectionIndex: si, title: p.title, expected: p.count, actual: fitting });
+      }
+    });
+  }
+
+  return { ok: mismatches.length === 0, totalMarks, byType, byUnit, cognitive: cognitiveDistribution(paper, form), sectionMarks: perSection, mismatches };
+}
+
+export function describeMismatch(m: BlueprintMismatch): string {
+  switch (m.kind) {
+    case "count":
+      return `${m.type.toUpperCase()}: expected ${m.expected} question${m.expected === 1 ? "" : "s"}, got ${m.actual}`;
+    case "unmarked":
+      return `${m.questionIndexes.length} question${m.questionIndexes.length === 1 ? " has" : "s have"} no marks (${m.questionIndexes.map((i) => `Q${i + 1}`).join(", ")})`;
+    case "marks":
+      return `Questions add up to ${m.actual} marks, but the paper is for ${m.expected}`;
+    case "unit":
+      return `${m.unit}: ${m.actual} marks, but the blueprint gives it ${m.expected}`;
+    case "untagged":
+      return `${m.questionIndexes.length} question${m.questionIndexes.length === 1 ? " is" : "s are"} not in any unit (${m.questionIndexes.map((i) => `Q${i + 1}`).join(", ")})`;
+    case "pattern":
+      return m.sectionIndex === null
+        ? `${m.title} has ${m.expected} sections, but the paper has ${m.actual}`
+        : `${m.title}: the pattern asks for ${m.expected} question${m.expected === 1 ? "" : "s"} of its type and marks, ${m.actual} fit`;
+  }
+}
+
+// -------------- Fixes --------------
+
+// Whole marks of at least 1 in proportion to `weights`, adding up to `target` (or to one mark
+// each, if that is more). Rounding leftovers go to the highest-weighted entries first.
+function scaleMarks(weights: number[], target: number): number[] {
+  target = Math.max(target, weights.length);
+  const factor = target / sum(weights);
+  const marks = weights.map((w) => Math.max(1, Math.round(w * factor)));
+
+  // Settle rounding error one mark at a time, heaviest questions first
+  const order = weights.map((_, i) => i).sort((a, b) => weights[b] - weights[a] || a - b);
+  let diff = target - sum(marks);
+  for (let i = 0; diff !== 0 && i < order.length * target; i++) {
+    const idx = order[i % order.length];
+    if (diff > 0) {
+      marks[idx] += 1;
+      diff -= 1;
+    } else if (marks[idx] > 1) {
+      marks[idx] -= 1;
+      diff += 1;
+    }
+  }
+  return marks;
+}
+
+// A marking scheme rescaled to a question's new marks, keeping the steps' proportions. Left as
+// it is when there are fewer whole marks than steps; the editor shows that mismatch.
+export function scaleMarkingScheme(steps: MarkingStep[] | undefined, marks: number | undefined): MarkingStep[] | undefined {
+  if (!steps?.length || !marks || !Number.isInteger(marks) || marks < steps.length) return steps;
+  const scaled = scaleMarks(steps.map((st) => (st.marks > 0 ? st.marks : 1)), marks);
+  return steps.map((st, i) => ({ ...st, marks: scaled[i] }));
+}
+
+// Scales every question's marks so the paper adds up to `totalMarks`. With `units`, each
+// unit's questions are scaled to that unit's marks instead, and questions outside any unit
+// keep theirs. Marking schemes are scaled with their questions.
+export function redistributeMarks(paper: PaperJSON, totalMarks: number, units: BlueprintUnit[] = []): PaperJSON {
+  const refs = paper.structure.sections.flatMap((sec, si) =>
+    sec.questions.map((q, qi) => ({ si, qi, unit: q.unit, weight: q.marks ?? DEFAULT_TYPE_MARKS[q.type] })),
+  );
+  if (!refs.length) return paper;
+
+  const groups = units.length
+    ? units.map((u) => ({ target: u.marks, refs: refs.filter((r) => r.unit === u.name) }))
+    : [{ target: totalMarks, refs }];
+  const sections = paper.structure.sections.map((sec) => ({ ...sec, questions: [...sec.questions] }));
+  for (const group of groups) {
+    if (!group.refs.length) continue;
+    const marks = scaleMarks(group.refs.map((r) => r.weight), group.target);
+    group.refs.forEach((r, i) => {
+      const q = sections[r.si].questions[r.qi];
+      sections[r.si].questions[r.qi] = { ...q, marks: marks[i], markingScheme: scaleMarkingScheme(q.markingScheme, marks[i]) };
+    });
+  }
+  return { ...paper, structure: { ...paper.structure, sections } };
+}
+
+// Drops surplus questions of each type, taking them from the end of the paper
+export function removeExtraQuestions(paper: PaperJSON, counts: FormState["counts"]): PaperJSON {
+  const kept: Record<QuestionType, number> = { mcq: 0, short: 0, long: 0, numerical: 0 };
+  const keep = new Set<Question>();
+  for (const sec of paper.structure.sections) {
+    for (const q of sec.questions) {
+      if (kept[q.type] < counts[q.type]) {
+        kept[q.type] += 1;
+        keep.add(q);
+      }
+    }
+  }
+  const sections = paper.structure.sections
+    .map((sec) => ({ ...sec, questions: sec.questions.filter((q) => keep.has(q)) }))
+    .filter((sec) => sec.questions.length > 0);
+  return { ...paper, structure: { ...paper.structure, sections } };
+}
+
+// How many questions of each type still have to be generated
+export function missingCounts(report: BlueprintReport): Partial<Record<QuestionType, number>> {
+  const missing: Partial<Record<QuestionType, number>> = {};
+  for (const t of report.byType) {
+    if (t.actual < t.expected) missing[t.type] = t.expected - t.actual;
+  }
+  return missing;
+}
+
+const SECTION_TITLES: Record<QuestionType, string> = {
+  mcq: "Multiple Choice Questions",
+  short: "Short Answer Questions",
+  long: "Long Answer Questions",
+  numerical: "Numerical Problems",
+};
+
+// Appends new questions to the section that already holds their type, or a new section
+export function insertQuestions(paper: PaperJSON, questions: Question[]): PaperJSON {
+  const sections = paper.structure.sections.map((sec) => ({ ...sec, questions: [...sec.questions] }));
+  for (const q of questions) {
+    let si = homeSection(sections, q.type);
+    if (si === null) {
+      sections.push({ title: SECTION_TITLES[q.type], questions: [] });
+      si = sections.length - 1;
+    }
+    sections[si].questions.push(q);
+  }
+  return { ...paper, structure: { ...paper.structure, sections } };
+}
@@ -0,0 +1,167 @@
+// QPaper Forge — Word export
+// Builds an editable .docx from a paper: numbered questions with their marks on a right tab
+// stop, MCQ options two to a row when they are short, and optionally the answer key after a
+// page break. Word shapes every script itself, so only formulas become images, the same
+// ones the PDF export draws. The docx library is only loaded when a teacher exports.
+
+import type { ImageRun, Paragraph, TextRun } from 'docx';
+import { type PaperJSON, type Question, mcqAnswerIndex, optionLetter } from './schema.ts';
+import { splitMath } from './math.ts';
+import { type MathImages, mathKey, paperTexts } from './pdfText.ts';
+import { rasterizeMath } from './pdf.ts';
+import type { ExportOptions } from './latex.ts';
+
+type Docx = typeof import('docx');
+
+// Word measures in twips (1/20 pt) and images in pixels
+const FONT_PT = 11;
+const PX_PER_EM = (FONT_PT * 96) / 72;
+const INDENT = 720; // half an inch, where question text starts
+const TEXT_WIDTH = 9638; // A4 less 2 cm margins
+const SHORT_OPTION = 28;
+
+type RunOptions = { bold?: boolean; italics?: boolean };
+
+// Formulas as images sitting on the baseline, the rest as text with line breaks kept
+function richRuns(docx: Docx, text: string, images: MathImages, options: RunOptions = {}): Array<TextRun | ImageRun> {
+  const runs: Array<TextRun | ImageRun> = [];
+  for (const seg of splitMath(text.trim())) {
+    if (seg.kind === "text") {
+      seg.value.split("\n").forEach((line, i) => runs.push(new docx.TextRun({ text: line, break: i ? 1 : undefined, ...options })));
+      continue;
+    }
+    const image = images.get(mathKey(seg.tex, seg.display));
+    if (!image) {
+      runs.push(new docx.TextRun({ text: seg.tex, font: "Consolas", ...options }));
+      continue;
+    }
+    runs.push(
+      new docx.ImageRun({
+        type: "png",
+        data: image.png,
+        transformation: { width: image.width * PX_PER_EM, height: (image.ascent + image.descent) * PX_PER_EM },
+        run: { position: `-${Math.round(image.descent * FONT_PT * 10) / 10}pt` },
+        altText: { name: "Formula", description: seg.tex, title: seg.tex },
+      }),
+    );
+  }
+  return runs;
+}
+
+function questionParagraphs(docx: Docx, q: Question, label: string, images: MathImages): Paragraph[] {
+  const marksTab = { type: docx.TabStopType.RIGHT, position: TEXT_WIDTH };
+  const paragraphs = [
+    new docx.Paragraph({
+      indent: { left: INDENT, hanging: INDENT },
+      tabStops: [{ type: docx.TabStopType.LEFT, position: INDENT }, marksTab],
+      spacing: { before: 160 },
+      children: [
+        new docx.TextRun({ text: `${label}\t`, bold: true }),
+        ...richRuns(docx, q.text, images),
+        ...(q.marks ? [new docx.TextRun({ text: `\t[${q.marks}]`, bold: true })] : []),
+      ],
+    }),
+  ];
+  if (q.translation) paragraphs.push(new docx.Paragraph({ indent: { left: INDENT }, children: richRuns(docx, q.translation.text, images) }));
+
+  if (q.type !== "mcq" || !q.options?.length) return paragraphs;
+  const translated = q.translation?.options;
+  const option = (i: number) => [
+    new docx.TextRun(`${optionLetter(i)}. `),
+    ...richRuns(docx, q.options![i], images),
+    ...(translated?.[i] ? [new docx.TextRun({ text: " / " }), ...richRuns(docx, translated[i], images)] : []),
+  ];
+  const short = !translated && q.options.every((o) => o.length <= SHORT_OPTION && !o.includes("$$"));
+  const optionIndent = INDENT + 360;
+  if (short) {
+    // Two options to a row, the second on a tab stop halfway across
+    const half = optionIndent + (TEXT_WIDTH - optionIndent) / 2;
+    for (let i = 0; i < q.options.length; i += 2) {
+      paragraphs.push(
+        new docx.Paragraph({
+          indent: { left: optionIndent },
+          tabStops: [{ type: docx.TabStopType.LEFT, position: half }],
+          children: [...option(i), ...(i + 1 < q.options.length ? [new docx.TextRun("\t"), ...option(i + 1)] : [])],
+        }),
+      );
+    }
+  } else {
+    q.options.forEach((_, i) => paragraphs.push(new docx.Paragraph({ indent: { left: optionIndent }, children: option(i) })));
+  }
+  return paragraphs;
+}
+
+function answerKeyParagraphs(docx: Docx, paper: PaperJSON, images: MathImages): Paragraph[] {
+  const marksTab = { type: docx.TabStopType.RIGHT, position: TEXT_WIDTH };
+  const paragraphs = [new docx.Paragraph({ heading: docx.HeadingLevel.HEADING_1, pageBreakBefore: true, text: "Answer Key / Marking Scheme" })];
+  paper.structure.sections.forEach((sec, si) => {
+    paragraphs.push(new docx.Paragraph({ heading: docx.HeadingLevel.HEADING_2, children: richRuns(docx, `${si + 1}. ${sec.title}`, images) }));
+    sec.questions.forEach((q, qi) => {
+      const idx = mcqAnswerIndex(q);
+      const answer = idx !== null ? `${optionLetter(idx)}. ${q.options?.[idx] ?? ""}` : q.answer || "—";
+      paragraphs.push(
+        new docx.Paragraph({
+          indent: { left: INDENT, hanging: INDENT },
+          tabStops: [{ type: docx.TabStopType.LEFT, position: INDENT }, marksTab],
+          spacing: { before: 120 },
+          children: [
+            new docx.TextRun({ text: `${si + 1}.${qi + 1}\t`, bold: true }),
+            ...richRuns(docx, answer, images),
+            ...(q.marks ? [new docx.TextRun({ text: `\t[${q.marks}]`, bold: true })] : []),
+          ],
+        }),
+      );
+      for (const st of q.markingScheme ?? []) {
+        paragraphs.push(
+          new docx.Paragraph({
+            indent: { left: INDENT + 360, hanging: 360 },
+            tabStops: [marksTab],
+            children: [new docx.TextRun("•  "), ...richRuns(docx, st.step, images), new docx.TextRun(`\t${st.marks}`)],
+          }),
+        );
+      }
+    });
+  });
+  return paragraphs;
+}
+
+export async function paperToDocx(docTitle: string, paper: PaperJSON, options: ExportOptions): Promise<Blob> {
+  const [docx, images] = await Promise.all([import("docx"), rasterizeMath([docTitle, ...paperTexts(paper)])]);
+  const m = paper.metadata;
+
+  const header = [
+    new docx.Paragraph({
+      alignment: docx.AlignmentType.CENTER,
+      children: [
+        ...richRuns(docx, docTitle, images, { bold: true }),
+        ...(m.setCode ? [new docx.TextRun({ text: `    SET ${m.setCode}`, bold: true })] : []),
+      ],
+    }),
+    new docx.Paragraph({ alignment: docx.AlignmentType.CENTER, children: richRuns(docx, [m.board, m.grade, m.subject, m.topic].join("  |  "), images) }),
+    new docx.Paragraph({
+      tabStops: [{ type: docx.TabStopType.RIGHT, position: TEXT_WIDTH }],
+      border: { bottom: { style: docx.BorderStyle.SINGLE, size: 6, color: "000000", space: 4 } },
+      spacing: { before: 200, after: 200 },
+      children: [new docx.TextRun(`Time allowed: ${m.timeLimitMinutes ?? "—"} minutes\tMaximum marks: ${m.totalMarks ?? "—"}`)],
+    }),
+  ];
+
+  const body = paper.structure.sections.flatMap((sec, si) => [
+    new docx.Paragraph({ alignment: docx.AlignmentType.CENTER, spacing: { before: 240 }, children: richRuns(docx, `${si + 1}. ${sec.title}`, images, { bold: true }) }),
+    ...(sec.instructions ? [new docx.Paragraph({ children: richRuns(docx, sec.instructions, images, { italics: true }) })] : []),
+    ...sec.questions.flatMap((q, qi) => questionParagraphs(docx, q, `${si + 1}.${qi + 1}`, images)),
+  ]);
+
+  const doc = new docx.Document({
+    title: docTitle,
+    creator: "QPaper Forge",
+    styles: { default: { document: { run: { size: FONT_PT * 2, font: "Calibri" } } } },
+    sections: [
+      {
+        properties: { page: { size: { width: 11906, height: 16838 }, margin: { top: 1134, bottom: 1134, left: 1134, right: 1134 } } },
+        children: [...header, ...body, ...(options.answerKey ? answerKeyParagraphs(docx, paper, images) : [])],
+      },
+    ],
+  });
+  return docx.Packer.toBlob(doc);
+}
@@ -0,0 +1,123 @@
+// QPaper Forge — fonts for the PDF exports
+// All fonts ship with the app (Noto, from @expo-google-fonts); nothing is fetched from a CDN.
+// Latin text is written with Noto Sans embedded in the PDF. Indic scripts need shaping
+// (conjuncts, reordered vowel signs) that jsPDF can't do, so words in those scripts are drawn
+// by the browser's own text shaper onto a canvas and placed as images (see pdfText.ts).
+// Which words need that is decided in scripts.ts, which has no font files to import and so
+// also loads outside the bundler.
+
+import type { jsPDF } from 'jspdf';
+import { type ScriptFamily, FALLBACK_FAMILY, scriptsIn } from './scripts.ts';
+import notoRegular from '@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf?url';
+import notoBold from '@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf?url';
+import notoItalic from '@expo-google-fonts/noto-sans/400Regular_Italic/NotoSans_400Regular_Italic.ttf?url';
+import notoBoldItalic from '@expo-google-fonts/noto-sans/700Bold_Italic/NotoSans_700Bold_Italic.ttf?url';
+import devanagariRegular from '@expo-google-fonts/noto-sans-devanagari/400Regular/NotoSansDevanagari_400Regular.ttf?url';
+import devanagariBold from '@expo-google-fonts/noto-sans-devanagari/700Bold/NotoSansDevanagari_700Bold.ttf?url';
+import bengaliRegular from '@expo-google-fonts/noto-sans-bengali/400Regular/NotoSansBengali_400Regular.ttf?url';
+import bengaliBold from '@expo-google-fonts/noto-sans-bengali/700Bold/NotoSansBengali_700Bold.ttf?url';
+import tamilRegular from '@expo-google-fonts/noto-sans-tamil/400Regular/NotoSansTamil_400Regular.ttf?url';
+import tamilBold from '@expo-google-fonts/noto-sans-tamil/700Bold/NotoSansTamil_700Bold.ttf?url';
+import teluguRegular from '@expo-google-fonts/noto-sans-telugu/400Regular/NotoSansTelugu_400Regular.ttf?url';
+import teluguBold from '@expo-google-fonts/noto-sans-telugu/700Bold/NotoSansTelugu_700Bold.ttf?url';
+import gujaratiRegular from '@expo-google-fonts/noto-sans-gujarati/400Regular/NotoSansGujarati_400Regular.ttf?url';
+import gujaratiBold from '@expo-google-fonts/noto-sans-gujarati/700Bold/NotoSansGujarati_700Bold.ttf?url';
+import kannadaRegular from '@expo-google-fonts/noto-sans-kannada/400Regular/NotoSansKannada_400Regular.ttf?url';
+import kannadaBold from '@expo-google-fonts/noto-sans-kannada/700Bold/NotoSansKannada_700Bold.ttf?url';
+import malayalamRegular from '@expo-google-fonts/noto-sans-malayalam/400Regular/NotoSansMalayalam_400Regular.ttf?url';
+import malayalamBold from '@expo-google-fonts/noto-sans-malayalam/700Bold/NotoSansMalayalam_700Bold.ttf?url';
+import gurmukhiRegular from '@expo-google-fonts/noto-sans-gurmukhi/400Regular/NotoSansGurmukhi_400Regular.ttf?url';
+import gurmukhiBold from '@expo-google-fonts/noto-sans-gurmukhi/700Bold/NotoSansGurmukhi_700Bold.ttf?url';
+
+// Use this with doc.setFont instead of the built-in Helvetica, which is Latin-1 only
+export const PDF_FONT = "NotoSans";
+
+const PDF_FONT_FILES: Array<{ url: string; style: "normal" | "bold" | "italic" | "bolditalic" }> = [
+  { url: notoRegular, style: "normal" },
+  { url: notoBold, style: "bold" },
+  { url: notoItalic, style: "italic" },
+  { url: notoBoldItalic, style: "bolditalic" },
+];
+
+// Files for the script families in scripts.ts. None of these fonts has an italic.
+const SCRIPT_FILES: Record<ScriptFamily, { regular: string; bold: string }> = {
+  "Noto Sans Devanagari": { regular: devanagariRegular, bold: devanagariBold },
+  "Noto Sans Bengali": { regular: bengaliRegular, bold: bengaliBold },
+  "Noto Sans Tamil": { regular: tamilRegular, bold: tamilBold },
+  "Noto Sans Telugu": { regular: teluguRegular, bold: teluguBold },
+  "Noto Sans Gujarati": { regular: gujaratiRegular, bold: gujaratiBold },
+  "Noto Sans Kannada": { regular: kannadaRegular, bold: kannadaBold },
+  "Noto Sans Malayalam": { regular: malayalamRegular, bold: malayalamBold },
+  "Noto Sans Gurmukhi": { regular: gurmukhiRegular, bold: gurmukhiBold },
+};
+
+// -------------- Loading --------------
+const base64Cache = new Map<string, Promise<string>>();
+
+function fetchBase64(url: string): Promise<string> {
+  let cached = base64Cache.get(url);
+  if (!cached) {
+    cached = fetch(url)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Could not load font ${url} (${res.status})`);
+        return res.arrayBuffer();
+      })
+      .then((buf) => {
+        const bytes = new Uint8Array(buf);
+        let binary = "";
+        // Chunked: String.fromCharCode(...bytes) overflows the stack on a whole font file
+        for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        return btoa(binary);
+      })
+      .catch((e) => {
+        // Not cached, so the next export tries again
+        base64Cache.delete(url);
+        throw e;
+      });
+    base64Cache.set(url, cached);
+  }
+  return cached;
+}
+
+// Makes PDF_FONT available in this document in all four styles
+export async function embedFonts(doc: jsPDF): Promise<void> {
+  const files = await Promise.all(PDF_FONT_FILES.map(async (f) => ({ ...f, data: await fetchBase64(f.url) })));
+  for (const f of files) {
+    const name = `${PDF_FONT}-${f.style}.ttf`;
+    doc.addFileToVFS(name, f.data);
+    doc.addFont(name, PDF_FONT, f.style);
+  }
+}
+
+const faceCache = new Map<string, Promise<void>>();
+
+function loadFace(family: string, url: string, weight: "400" | "700"): Promise<void> {
+  const key = `${family}/${weight}`;
+  let cached = faceCache.get(key);
+  if (!cached) {
+    const face = new FontFace(family, `url(${url})`, { weight });
+    cached = face.load().then(
+      (f) => {
+        document.fonts.add(f);
+      },
+      (e) => {
+        faceCache.delete(key);
+        throw e;
+      },
+    );
+    faceCache.set(key, cached);
+  }
+  return cached;
+}
+
+// Registers the canvas fonts for every script that appears in `texts`, so words can then
+// be drawn synchronously during layout
+export async function loadScriptFonts(texts: string[]): Promise<void> {
+  const needed = scriptsIn(texts);
+  if (!needed.length) return;
+  await Promise.all([
+    loadFace(FALLBACK_FAMILY, notoRegular, "400"),
+    loadFace(FALLBACK_FAMILY, notoBold, "700"),
+    ...needed.flatMap(({ family }) => [loadFace(family, SCRIPT_FILES[family].regular, "400"), loadFace(family, SCRIPT_FILES[family].bold, "700")]),
+  ]);
+}
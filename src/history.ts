@@ -0,0 +1,50 @@
+// QPaper Forge — undo/redo history for editable state
+import { useCallback, useState } from "react";
+
+const MAX_HISTORY = 100;
+
+type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey?: string; // key of the last change, for coalescing
+};
+
+// Like useState, but every change can be undone. Changes passing the same `coalesceKey`
+// back to back (e.g. keystrokes in one field) collapse into a single undo step.
+export function useHistory<T>(initial: T) {
+  const [h, setH] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T | ((prev: T) => T), coalesceKey?: string) => {
+    setH((cur) => {
+      const value = typeof next === "function" ? (next as (prev: T) => T)(cur.present) : next;
+      if (Object.is(value, cur.present)) return cur;
+      const merge = coalesceKey !== undefined && coalesceKey === cur.lastKey;
+      return {
+        past: merge ? cur.past : [...cur.past, cur.present].slice(-MAX_HISTORY),
+        present: value,
+        future: [],
+        lastKey: coalesceKey,
+      };
+    });
+  }, []);
+
+  // Replaces the value and forgets all history (e.g. a freshly generated paper)
+  const reset = useCallback((value: T) => setH({ past: [], present: value, future: [] }), []);
+
+  const undo = useCallback(() => {
+    setH((cur) =>
+      cur.past.length
+        ? { past: cur.past.slice(0, -1), present: cur.past[cur.past.length - 1], future: [cur.present, ...cur.future] }
+        : cur,
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    setH((cur) =>
+      cur.future.length ? { past: [...cur.past, cur.present], present: cur.future[0], future: cur.future.slice(1) } : cur,
+    );
+  }, []);
+
+  return { value: h.present, set, reset, undo, redo, canUndo: h.past.length > 0, canRedo: h.future.length > 0 };
+}
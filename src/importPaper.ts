@@ -0,0 +1,282 @@
+// QPaper Forge — importing papers
+// Three ways in: our own JSON downloads, checked and brought up to date by metadata.version,
+// and plain text or .docx question papers. Text in the usual layout (numbered questions,
+// lettered options, marks in brackets) is parsed here; anything messier is sent to the model
+// as an "import" request by App.tsx.
+
+import { type BlueprintUnit, type Checked, type Difficulty, type FormState, type PaperJSON, type Question, type QuestionType, type SchemaIssue, DIFFICULTIES, LANGUAGES, QUESTION_TYPES, validatePaper, withUnitTotals } from './schema.ts';
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// -------------- JSON --------------
+
+// 1.0 papers came straight from the model, before anything checked them, so they are
+// coerced into shape. Later versions only added optional fields (markingScheme in 2.1,
+// LaTeX notation in 2.2, translation in 2.3) and need nothing. Non-numeric versions
+// ("bank", "import") were made by this app in the current shape.
+const MIGRATIONS: Array<{ before: number; migrate: (paper: Record<string, unknown>) => Record<string, unknown> }> = [{ before: 2, migrate: migrateFrom1 }];
+
+function migrateFrom1(paper: Record<string, unknown>): Record<string, unknown> {
+  const meta = isObject(paper.metadata) ? paper.metadata : {};
+  const sections = isObject(paper.structure) && Array.isArray(paper.structure.sections) ? paper.structure.sections : [];
+  const usedIds = new Set<string>();
+  let n = 0;
+
+  const question = (q: unknown): unknown => {
+    if (!isObject(q)) return q;
+    n++;
+    const type = typeof q.type === "string" ? q.type.toLowerCase() : "";
+    const options = Array.isArray(q.options) ? q.options.map(String) : undefined;
+    const marks = Number(q.marks);
+    const difficulty = typeof q.difficulty === "string" ? q.difficulty.toLowerCase() : undefined;
+    let id = typeof q.id === "string" && q.id.trim() ? q.id.trim() : String(q.id ?? "");
+    if (!id || usedIds.has(id)) id = `q${n}`;
+    while (usedIds.has(id)) id = `${id}_${n}`;
+    usedIds.add(id);
+    return {
+      ...q,
+      id,
+      type: QUESTION_TYPES.includes(type as QuestionType) ? type : options?.length ? "mcq" : "short",
+      text: typeof q.text === "string" ? q.text : String(q.text ?? ""),
+      options,
+      answer: q.answer === undefined || q.answer === null ? undefined : String(q.answer),
+      marks: Number.isFinite(marks) && marks > 0 ? marks : undefined,
+      difficulty: DIFFICULTIES.includes(difficulty as (typeof DIFFICULTIES)[number]) ? difficulty : undefined,
+    };
+  };
+
+  return {
+    ...paper,
+    metadata: {
+      ...meta,
+      board: String(meta.board ?? ""),
+      grade: String(meta.grade ?? ""),
+      subject: String(meta.subject ?? ""),
+      topic: String(meta.topic ?? ""),
+    },
+    structure: {
+      sections: sections.map((sec: unknown, si: number) =>
+        isObject(sec)
+          ? { ...sec, title: typeof sec.title === "string" && sec.title.trim() ? sec.title : `Section ${si + 1}`, questions: Array.isArray(sec.questions) ? sec.questions.map(question) : sec.questions }
+          : sec,
+      ),
+    },
+  };
+}
+
+// A JSON file as downloaded from the app, at any version
+export function migratePaper(input: unknown): Checked<PaperJSON> {
+  if (!isObject(input) || !isObject(input.metadata)) return validatePaper(input);
+  const version = typeof input.metadata.version === "string" ? input.metadata.version : "1.0";
+  const numeric = parseFloat(version);
+  let paper: Record<string, unknown> = { ...input, metadata: { ...input.metadata, version } };
+  for (const step of MIGRATIONS) {
+    if (Number.isFinite(numeric) && numeric < step.before) paper = step.migrate(paper);
+  }
+  return validatePaper(paper);
+}
+
+// -------------- Plain text --------------
+// "Section A", "Part II: Short answers", or our own exports' "2. Section B"
+const SECTION_RE = /^(?:\d+\.\s*)?(?:section|part)\s+([A-Z]|[IVX]+|\d+)\b/i;
+// "1.", "1)", "Q1.", "Q.1:", or our own exports' "2.3" before a tab
+const QUESTION_RE = /^(?:Q(?:uestion)?\s*\.?\s*\d+\s*[.):]?|\d+\.\d+\s|\d+\s*[.):])\s*(.+)$/i;
+const OPTION_RE = /^\(?([a-d])[.)]\s*(.+)$/i;
+const INLINE_OPTION_RE = /(?:^|\s)\(?([a-d])[.)]\s+/gi;
+const ANSWER_KEY_RE = /^answer key\b/i;
+const MARKS_RE = /\s*[[(](\d+(?:\.\d+)?)\s*(?:marks?|m)?[\])]\s*$/i;
+const TIME_RE = /time(?:\s+allowed)?\s*[:-]?\s*(\d+(?:\.\d+)?)\s*(hours?|hrs?|minutes?|mins?)/i;
+const TOTAL_MARKS_RE = /(?:max(?:imum)?\.?\s*)?marks\s*[:-]\s*(\d+)/i;
+const GRADE_RE = /\b(class|grade|std\.?)\s*[:-]?\s*([0-9]{1,2}|[IVX]{1,4})\b/i;
+const SUBJECT_RE = /\bsubject\s*[:-]\s*([^|•]+)/i;
+const NUMERICAL_RE = /\b(calculate|compute|find the value|how (?:many|much)|evaluate|determine the (?:value|amount|number))\b/i;
+
+type Draft = { text: string[]; options: string[]; marks?: number };
+
+// "(a) 7  (b) 14" on one line. The letters must carry on in order from the options already
+// read, so an "a." inside an option doesn't split it.
+function splitOptions(line: string, read: number): string[] | null {
+  const marks = [...line.matchAll(INLINE_OPTION_RE)];
+  if (marks.length < 2 || marks[0].index !== 0 || marks.some((m, i) => m[1].toLowerCase() !== "abcd"[read + i])) return null;
+  return marks.map((m, i) => line.slice(m.index! + m[0].length, marks[i + 1]?.index ?? line.length).trim());
+}
+
+function toQuestion(d: Draft, n: number): Question {
+  const text = d.text.join("\n").trim();
+  const type: QuestionType = d.options.length ? "mcq" : NUMERICAL_RE.test(text) ? "numerical" : (d.marks ?? 0) >= 5 ? "long" : "short";
+  return { id: `q${n}`, type, text, options: d.options.length ? d.options : undefined, marks: d.marks };
+}
+
+// Parses a paper in the usual printed layout. Fails (with the reasons) when the text doesn't
+// look like one, so the caller can hand it to the model instead. Header fields it can't
+// find are taken from `fallback`, the form on screen.
+export function parsePaperText(text: string, fallback: FormState): Checked<PaperJSON> {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n").map((l) => l.replace(/\t+/g, " ").trim());
+  const header: string[] = [];
+  const sections: Array<{ title: string; instructions?: string; questions: Draft[] }> = [];
+  let current: Draft | null = null;
+  const issues: SchemaIssue[] = [];
+
+  const section = () => {
+    if (!sections.length) sections.push({ title: "Section 1", questions: [] });
+    return sections[sections.length - 1];
+  };
+
+  for (const line of lines) {
+    if (!line) continue;
+    if (ANSWER_KEY_RE.test(line)) break;
+    if (SECTION_RE.test(line)) {
+      sections.push({ title: line.replace(/^\d+\.\s*/, "").replace(MARKS_RE, ""), questions: [] });
+      current = null;
+      continue;
+    }
+    const q = QUESTION_RE.exec(line);
+    if (q) {
+      const marks = MARKS_RE.exec(q[1]);
+      current = { text: [q[1].replace(MARKS_RE, "")], options: [], marks: marks ? Number(marks[1]) : undefined };
+      section().questions.push(current);
+      continue;
+    }
+    if (!current) {
+      // Before the first question: the paper's header, or a section's instructions
+      if (sections.length) section().instructions = [section().instructions, line].filter(Boolean).join(" ");
+      else header.push(line);
+      continue;
+    }
+    const inline = splitOptions(line, current.options.length);
+    const opt = OPTION_RE.exec(line);
+    if (inline) current.options.push(...inline);
+    else if (opt) current.options.push(opt[2]);
+    else if (MARKS_RE.test(line) && line.replace(MARKS_RE, "") === "") current.marks = Number(MARKS_RE.exec(line)![1]);
+    else if (current.options.length) current.options[current.options.length - 1] += ` ${line}`;
+    else current.text.push(line);
+  }
+
+  // Marks written at the end of a question's last line, or after its last option
+  for (const sec of sections) {
+    for (const d of sec.questions) {
+      const lines = d.options.length ? d.options : d.text;
+      const last = lines.length - 1;
+      const marks = MARKS_RE.exec(lines[last]);
+      if (marks) {
+        lines[last] = lines[last].replace(MARKS_RE, "");
+        d.marks ??= Number(marks[1]);
+      }
+    }
+  }
+
+  let n = 0;
+  const paperSections = sections
+    .filter((s) => s.questions.length)
+    .map((s) => ({ title: s.title, instructions: s.instructions, questions: s.questions.map((d) => toQuestion(d, ++n)) }));
+  if (!n) issues.push({ path: "$", message: "no numbered questions found" });
+  paperSections.forEach((s, si) =>
+    s.questions.forEach((q, qi) => {
+      if (q.options && q.options.length !== 4) issues.push({ path: `structure.sections[${si}].questions[${qi}].options`, message: `found ${q.options.length} options` });
+    }),
+  );
+  if (issues.length) return { ok: false, issues };
+
+  const joined = header.join(" | ");
+  const time = TIME_RE.exec(joined);
+  const totalMarks = TOTAL_MARKS_RE.exec(joined);
+  const grade = GRADE_RE.exec(joined);
+  const subject = SUBJECT_RE.exec(joined);
+  const paper: PaperJSON = {
+    metadata: {
+      board: fallback.board,
+      grade: grade ? `${grade[1][0].toUpperCase()}${grade[1].slice(1).toLowerCase()} ${grade[2]}` : fallback.grade,
+      subject: subject ? subject[1].trim() : fallback.subject,
+      topic: header[0] ?? fallback.topic,
+      timeLimitMinutes: time ? Math.round(Number(time[1]) * (/^h/i.test(time[2]) ? 60 : 1)) : undefined,
+      totalMarks: totalMarks ? Number(totalMarks[1]) : undefined,
+      language: fallback.language,
+      version: "import",
+    },
+    structure: { sections: paperSections },
+  };
+  return validatePaper(paper);
+}
+
+// For papers the model structured: its header fields, or the form's where it found none
+export function withImportMetadata(value: unknown, fallback: FormState, version: string): unknown {
+  if (!isObject(value)) return value;
+  const meta = isObject(value.metadata) ? value.metadata : {};
+  const field = (key: "board" | "grade" | "subject" | "topic") => (typeof meta[key] === "string" && meta[key].trim() ? meta[key] : fallback[key]);
+  return {
+    ...value,
+    metadata: {
+      ...meta,
+      board: field("board"),
+      grade: field("grade"),
+      subject: field("subject"),
+      topic: field("topic"),
+      language: typeof meta.language === "string" && meta.language ? meta.language : fallback.language,
+      version,
+    },
+  };
+}
+
+const countByType = (questions: Question[]) =>
+  Object.fromEntries(QUESTION_TYPES.map((t) => [t, questions.filter((q) => q.type === t).length])) as Record<QuestionType, number>;
+
+const marksOf = (questions: Question[]) => questions.reduce((sum, q) => sum + (q.marks ?? 0), 0);
+
+// Units as the paper's questions are tagged, when every one of them is
+function unitsOf(questions: Question[]): BlueprintUnit[] | undefined {
+  if (!questions.length || questions.some((q) => !q.unit)) return undefined;
+  return [...new Set(questions.map((q) => q.unit!))].map((name) => {
+    const inUnit = questions.filter((q) => q.unit === name);
+    const share = (d: Difficulty) => Math.round((100 * inUnit.filter((q) => (q.difficulty ?? "medium") === d).length) / inUnit.length);
+    return { name, marks: marksOf(inUnit), counts: countByType(inUnit), difficulty: { easy: share("easy"), medium: share("medium"), hard: share("hard") } };
+  });
+}
+
+// The form an imported paper would have been generated from, so the blueprint check and
+// "fill"/"replace" requests have something to work with
+export function formFromPaper(paper: PaperJSON, base: FormState): FormState {
+  const m = paper.metadata;
+  const questions = paper.structure.sections.flatMap((s) => s.questions);
+  const counts = countByType(questions);
+  const marks = marksOf(questions);
+  const known = (lang: string | undefined) => (LANGUAGES as readonly string[]).includes(lang ?? "");
+  return withUnitTotals({
+    ...base,
+    board: m.board || base.board,
+    grade: m.grade || base.grade,
+    subject: m.subject || base.subject,
+    topic: m.topic || base.topic,
+    timeLimitMinutes: m.timeLimitMinutes ?? base.timeLimitMinutes,
+    totalMarks: m.totalMarks ?? (marks || base.totalMarks),
+    language: known(m.language) ? m.language! : base.language,
+    secondLanguage: known(m.secondLanguage) ? m.secondLanguage : undefined,
+    counts,
+    units: unitsOf(questions),
+  });
+}
+
+// -------------- DOCX --------------
+const WORD_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+// The text of a .docx, one line per paragraph. Formulas exported by this app are images
+// whose description is the TeX source, so they come back as $…$.
+export async function readDocxText(file: File): Promise<string> {
+  const { unzipSync, strFromU8 } = await import("fflate");
+  const files = unzipSync(new Uint8Array(await file.arrayBuffer()), { filter: (f) => f.name === "word/document.xml" });
+  const xml = files["word/document.xml"];
+  if (!xml) throw new Error("This doesn't look like a Word document.");
+  const doc = new DOMParser().parseFromString(strFromU8(xml), "application/xml");
+
+  const textOf = (node: Element): string => {
+    let out = "";
+    for (const child of Array.from(node.children)) {
+      if (child.localName === "t") out += child.textContent ?? "";
+      else if (child.localName === "tab") out += "\t";
+      else if (child.localName === "br") out += "\n";
+      else if (child.localName === "docPr" && child.getAttribute("descr")) out += `$${child.getAttribute("descr")}$`;
+      else out += textOf(child);
+    }
+    return out;
+  };
+  return Array.from(doc.getElementsByTagNameNS(WORD_NS, "p")).map(textOf).join("\n");
+}
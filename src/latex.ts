@@ -0,0 +1,129 @@
+// QPaper Forge — LaTeX export
+// Writes a paper as a standalone .tex file for departments that typeset their own papers.
+// Formulas are already LaTeX (see math.ts) and go through untouched; everything else is
+// escaped. Papers with Indic scripts need LuaLaTeX, which babel then switches fonts for by
+// character; all others compile with plain pdfLaTeX.
+
+import { type PaperJSON, type Question, mcqAnswerIndex, optionLetter } from './schema.ts';
+import { splitMath } from './math.ts';
+import { type ScriptFamily, scriptsIn } from './scripts.ts';
+import { paperTexts } from './pdfText.ts';
+
+export type ExportOptions = { answerKey: boolean };
+
+// babel's name for a language written in each script, for \babelprovide
+const BABEL_LANGUAGES: Record<ScriptFamily, string> = {
+  "Noto Sans Devanagari": "hindi",
+  "Noto Sans Bengali": "bengali",
+  "Noto Sans Tamil": "tamil",
+  "Noto Sans Telugu": "telugu",
+  "Noto Sans Gujarati": "gujarati",
+  "Noto Sans Kannada": "kannada",
+  "Noto Sans Malayalam": "malayalam",
+  "Noto Sans Gurmukhi": "punjabi",
+};
+
+// Options this short are set two to a row
+const SHORT_OPTION = 28;
+
+const ESCAPES: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "{": "\\{",
+  "}": "\\}",
+  $: "\\$",
+  "&": "\\&",
+  "%": "\\%",
+  "#": "\\#",
+  _: "\\_",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}",
+};
+
+const escapeText = (text: string) => text.replace(/[\\{}$&%#_~^]/g, (c) => ESCAPES[c]);
+
+// Question text: formulas kept, the rest escaped, line breaks kept
+export function toLatex(text: string): string {
+  return splitMath(text.trim())
+    .map((seg) => (seg.kind === "math" ? (seg.display ? `\\[${seg.tex}\\]` : `$${seg.tex}$`) : escapeText(seg.value).replace(/\n+/g, "\\\\\n")))
+    .join("");
+}
+
+function preamble(paper: PaperJSON): string[] {
+  const scripts = scriptsIn(paperTexts(paper));
+  const lines = [
+    ...(scripts.length ? ["% Compile with LuaLaTeX: the paper contains Indic scripts"] : []),
+    "\\documentclass[11pt,a4paper]{article}",
+    "\\usepackage[margin=2cm]{geometry}",
+    "\\usepackage{amsmath,amssymb}",
+    "\\usepackage[version=4]{mhchem}",
+    "\\usepackage{enumitem}",
+    "\\usepackage{multicol}",
+  ];
+  if (scripts.length) {
+    lines.push("\\usepackage{fontspec}", "\\usepackage[english]{babel}", "\\babelfont{rm}{Noto Sans}");
+    for (const { family } of scripts) {
+      lines.push(`\\babelprovide[import, onchar=ids fonts]{${BABEL_LANGUAGES[family]}}`, `\\babelfont[${BABEL_LANGUAGES[family]}]{rm}{${family}}`);
+    }
+  } else {
+    lines.push("\\usepackage[T1]{fontenc}", "\\usepackage[utf8]{inputenc}");
+  }
+  lines.push("\\newcommand{\\marks}[1]{\\hfill\\mbox{[#1]}}", "\\setlength{\\parindent}{0pt}");
+  return lines;
+}
+
+function optionsBlock(q: Question): string[] {
+  if (q.type !== "mcq" || !q.options?.length) return [];
+  const translated = q.translation?.options;
+  const items = q.options.map((opt, i) => `  \\item ${toLatex(opt)}${translated?.[i] ? `\\\\ ${toLatex(translated[i])}` : ""}`);
+  const short = !translated && q.options.every((o) => o.length <= SHORT_OPTION && !o.includes("$$"));
+  const list = ["\\begin{enumerate}[label=\\Alph*., leftmargin=2em, itemsep=0pt]", ...items, "\\end{enumerate}"];
+  return short ? ["\\begin{multicols}{2}", ...list, "\\end{multicols}"] : list;
+}
+
+function answerKey(paper: PaperJSON): string[] {
+  const lines = ["\\newpage", "\\section*{Answer Key / Marking Scheme}"];
+  paper.structure.sections.forEach((sec, si) => {
+    lines.push(`\\subsection*{${si + 1}. ${toLatex(sec.title)}}`, "\\begin{description}[leftmargin=3em, style=nextline]");
+    sec.questions.forEach((q, qi) => {
+      const idx = mcqAnswerIndex(q);
+      const answer = idx !== null ? `${optionLetter(idx)}. ${toLatex(q.options?.[idx] ?? "")}` : toLatex(q.answer || "—");
+      lines.push(`  \\item[${si + 1}.${qi + 1}] ${answer}${q.marks ? ` \\marks{${q.marks}}` : ""}`);
+      if (q.markingScheme?.length) {
+        lines.push("  \\begin{itemize}[itemsep=0pt]", ...q.markingScheme.map((st) => `    \\item ${toLatex(st.step)} \\marks{${st.marks}}`), "  \\end{itemize}");
+      }
+    });
+    lines.push("\\end{description}");
+  });
+  return lines;
+}
+
+export function paperToLatex(docTitle: string, paper: PaperJSON, options: ExportOptions): string {
+  const m = paper.metadata;
+  const lines = [
+    ...preamble(paper),
+    "",
+    "\\begin{document}",
+    "\\begin{center}",
+    `{\\Large\\bfseries ${toLatex(docTitle)}}${m.setCode ? `\\hfill\\fbox{\\bfseries SET ${escapeText(m.setCode)}}` : ""}\\\\[4pt]`,
+    `${toLatex([m.board, m.grade, m.subject, m.topic].join(" | "))}`,
+    "\\end{center}",
+    `Time allowed: ${m.timeLimitMinutes ?? "—"} minutes \\hfill Maximum marks: ${m.totalMarks ?? "—"}`,
+    "\\par\\medskip\\hrule\\bigskip",
+  ];
+
+  paper.structure.sections.forEach((sec, si) => {
+    lines.push("", `\\begin{center}\\bfseries ${si + 1}. ${toLatex(sec.title)}\\end{center}`);
+    if (sec.instructions) lines.push(`\\textit{${toLatex(sec.instructions)}}\\par\\medskip`);
+    lines.push(`\\begin{enumerate}[label=\\textbf{${si + 1}.\\arabic*}, leftmargin=3em]`);
+    for (const q of sec.questions) {
+      lines.push(`\\item ${toLatex(q.text)}${q.marks ? ` \\marks{${q.marks}}` : ""}`);
+      if (q.translation) lines.push(`\\par ${toLatex(q.translation.text)}`);
+      lines.push(...optionsBlock(q));
+    }
+    lines.push("\\end{enumerate}");
+  });
+
+  if (options.answerKey) lines.push("", ...answerKey(paper));
+  lines.push("\\end{document}", "");
+  return lines.join("\n");
+}
@@ -0,0 +1,110 @@
+// QPaper Forge — saved paper library
+// Every generated or edited paper is kept in Firestore under the signed-in user, together
+// with the form it was generated from and its seed, so it can be reopened later.
+// Firestore's local cache (see App.tsx) queues writes while offline, so none of these
+// calls should be awaited before updating the UI: the promise only settles once the
+// server has the write.
+
+import {
+  type Firestore,
+  type Unsubscribe,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+import type { FormState, PaperJSON } from './schema.ts';
+
+declare const __app_id: string | undefined;
+
+// Canvas hosts share one project between apps; data lives under artifacts/{appId}
+export const APP_ID = typeof __app_id !== "undefined" ? __app_id : "default-app-id";
+
+export type SavedPaper = {
+  id: string;
+  title: string;
+  paper: PaperJSON;
+  form: FormState;
+  seed: number;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type PaperContent = Pick<SavedPaper, "paper" | "form" | "seed">;
+
+// Private per user: artifacts/{appId}/users/{uid}/papers/{paperId}
+const papersCollection = (db: Firestore, userId: string) => collection(db, "artifacts", APP_ID, "users", userId, "papers");
+
+export const defaultTitle = (paper: PaperJSON) =>
+  `${paper.metadata.subject} ${paper.metadata.grade} — ${paper.metadata.topic}`;
+
+// Ids are made on the client, so a paper has one before its first write reaches the server
+export function newPaperId(db: Firestore, userId: string): string {
+  return doc(papersCollection(db, userId)).id;
+}
+
+export function createPaper(db: Firestore, userId: string, id: string, content: PaperContent, title = defaultTitle(content.paper)) {
+  return setDoc(doc(papersCollection(db, userId), id), {
+    ...content,
+    title,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export function updatePaper(db: Firestore, userId: string, id: string, content: PaperContent) {
+  return updateDoc(doc(papersCollection(db, userId), id), { ...content, updatedAt: serverTimestamp() });
+}
+
+export function renamePaper(db: Firestore, userId: string, id: string, title: string) {
+  return updateDoc(doc(papersCollection(db, userId), id), { title, updatedAt: serverTimestamp() });
+}
+
+export function deletePaper(db: Firestore, userId: string, id: string) {
+  return deleteDoc(doc(papersCollection(db, userId), id));
+}
+
+// Returns the new paper's id straight away; the write follows in the background
+export function duplicatePaper(db: Firestore, userId: string, source: SavedPaper): { id: string; written: Promise<void> } {
+  const id = newPaperId(db, userId);
+  const { paper, form, seed } = source;
+  return { id, written: createPaper(db, userId, id, { paper, form, seed }, `${source.title} (copy)`) };
+}
+
+// Most recently changed first. Served from the local cache first, then kept in sync.
+export function subscribeLibrary(
+  db: Firestore,
+  userId: string,
+  onChange: (papers: SavedPaper[]) => void,
+  onError: (error: Error) => void,
+): Unsubscribe {
+  const q = query(papersCollection(db, userId), orderBy("updatedAt", "desc"));
+  return onSnapshot(q, (snap) => {
+    onChange(snap.docs.map((d) => {
+      // Pending server timestamps are null until acknowledged; estimate them locally instead
+      const data = d.data({ serverTimestamps: "estimate" });
+      return {
+        id: d.id,
+        title: data.title,
+        paper: data.paper,
+        form: data.form,
+        seed: data.seed,
+        createdAt: data.createdAt?.toDate() ?? new Date(),
+        updatedAt: data.updatedAt?.toDate() ?? new Date(),
+      };
+    }));
+  }, onError);
+}
+
+// Firestore has no substring search, and a teacher's library is small enough to filter here
+export function matchesSearch(entry: SavedPaper, search: string): boolean {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const { subject, topic, grade } = entry.paper.metadata;
+  const haystack = [entry.title, subject, topic, grade].join(" ").toLowerCase();
+  return words.every((w) => haystack.includes(w));
+}
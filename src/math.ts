@@ -0,0 +1,125 @@
+// QPaper Forge — math and chemistry notation
+// Question text may contain LaTeX between $…$ (inline) or $$…$$ (display), and chemistry
+// via mhchem's \ce{…}; the prompts ask the model for exactly that (api/_prompt.ts).
+// MathJax turns each formula into a self-contained SVG: the preview shows it as is and the
+// PDF export draws it as an image. MathJax is large, so it is only loaded once needed.
+
+export type MathSegment =
+  | { kind: "text"; value: string }
+  | { kind: "math"; tex: string; display: boolean };
+
+export type RenderedMath = {
+  svg: string;
+  // Size in ex of the surrounding font, and how far the baseline sits above the bottom edge
+  widthEx: number;
+  heightEx: number;
+  depthEx: number;
+};
+
+// Splits text into plain runs and formulas. `\$` is a literal dollar sign, and an unclosed
+// `$` is left as text so a stray currency sign doesn't swallow the rest of the question.
+export function splitMath(text: string): MathSegment[] {
+  const segments: MathSegment[] = [];
+  let plain = "";
+  let i = 0;
+
+  while (i < text.length) {
+    if (text.startsWith("\\$", i)) {
+      plain += "$";
+      i += 2;
+      continue;
+    }
+    const display = text.startsWith("$$", i);
+    if (text[i] === "$") {
+      const open = display ? 2 : 1;
+      const close = text.indexOf(display ? "$$" : "$", i + open);
+      if (close > i + open) {
+        if (plain) segments.push({ kind: "text", value: plain });
+        plain = "";
+        segments.push({ kind: "math", tex: text.slice(i + open, close).trim(), display });
+        i = close + open;
+        continue;
+      }
+    }
+    plain += text[i];
+    i++;
+  }
+  if (plain) segments.push({ kind: "text", value: plain });
+  return segments;
+}
+
+export const hasMath = (text: string) => splitMath(text).some((s) => s.kind === "math");
+
+// -------------- MathJax --------------
+type Renderer = (tex: string, display: boolean) => RenderedMath;
+
+let renderer: Renderer | null = null;
+let loading: Promise<void> | null = null;
+const cache = new Map<string, RenderedMath>();
+
+// The lite adaptor works on strings rather than the page's DOM, so this also runs outside a browser
+async function createRenderer(): Promise<Renderer> {
+  const [{ mathjax }, { TeX }, { SVG }, { liteAdaptor }, { RegisterHTMLHandler }] = await Promise.all([
+    import("mathjax-full/js/mathjax.js"),
+    import("mathjax-full/js/input/tex.js"),
+    import("mathjax-full/js/output/svg.js"),
+    import("mathjax-full/js/adaptors/liteAdaptor.js"),
+    import("mathjax-full/js/handlers/html.js"),
+    import("mathjax-full/js/input/tex/base/BaseConfiguration.js"),
+    import("mathjax-full/js/input/tex/ams/AmsConfiguration.js"),
+    import("mathjax-full/js/input/tex/mhchem/MhchemConfiguration.js"),
+    import("mathjax-full/js/input/tex/noundefined/NoUndefinedConfiguration.js"),
+  ]);
+
+  const adaptor = liteAdaptor();
+  RegisterHTMLHandler(adaptor);
+  const document = mathjax.document("", {
+    InputJax: new TeX({ packages: ["base", "ams", "mhchem", "noundefined"] }),
+    // No shared glyph cache: every SVG must stand alone to be drawn into the PDF
+    OutputJax: new SVG({ fontCache: "none" }),
+  });
+
+  const ex = (v: string | null) => parseFloat(v ?? "") || 0;
+  return (tex, display) => {
+    const node = document.convert(tex, { display });
+    const svg = adaptor.firstChild(node) as Parameters<typeof adaptor.getAttribute>[0];
+    const depth = /vertical-align:\s*(-?[\d.]+)ex/.exec(adaptor.getAttribute(svg, "style") ?? "");
+    return {
+      svg: adaptor.outerHTML(svg),
+      widthEx: ex(adaptor.getAttribute(svg, "width")),
+      heightEx: ex(adaptor.getAttribute(svg, "height")),
+      depthEx: depth ? -parseFloat(depth[1]) : 0,
+    };
+  };
+}
+
+export function loadMath(): Promise<void> {
+  // A failed load isn't kept, so the next preview or export tries again
+  loading ??= createRenderer().then(
+    (r) => {
+      renderer = r;
+    },
+    (e) => {
+      loading = null;
+      throw e;
+    },
+  );
+  return loading;
+}
+
+// Null until loadMath() has finished; the preview shows the raw TeX until then
+export function renderMathSync(tex: string, display: boolean): RenderedMath | null {
+  if (!renderer) return null;
+  const key = `${display ? "D" : "I"}${tex}`;
+  let rendered = cache.get(key);
+  if (!rendered) {
+    rendered = renderer(tex, display);
+    cache.set(key, rendered);
+  }
+  return rendered;
+}
+
+export async function renderMath(tex: string, display: boolean): Promise<RenderedMath> {
+  await loadMath();
+  return renderMathSync(tex, display)!;
+}
@@ -0,0 +1,87 @@
+// QPaper Forge — board paper patterns
+// Built-in section skeletons for common board papers. A form with a pattern asks for exactly
+// these sections; the model only writes the questions, and titles, instructions and marks
+// are copied from the pattern onto whatever it returns before it is checked.
+
+import { type FormState, type PaperPattern, type QuestionType, type SchemaIssue, QUESTION_TYPES } from './schema.ts';
+
+// CBSE board papers for 2025-26 share the five-section layout; subjects differ in the counts
+const cbseBoard = (id: string, name: string, counts: { b: number; c: number; d: number }): PaperPattern => ({
+  id,
+  name,
+  timeLimitMinutes: 180,
+  sections: [
+    { title: "Section A", instructions: "Multiple choice questions carrying 1 mark each.", type: "mcq", count: 20, marks: 1 },
+    { title: "Section B", instructions: "Very short answer questions carrying 2 marks each.", type: "short", count: counts.b, marks: 2 },
+    { title: "Section C", instructions: "Short answer questions carrying 3 marks each.", type: "short", count: counts.c, marks: 3 },
+    { title: "Section D", instructions: "Long answer questions carrying 5 marks each.", type: "long", count: counts.d, marks: 5 },
+    { title: "Section E", instructions: "Case-based questions carrying 4 marks each, with sub-parts.", type: "long", count: 3, marks: 4 },
+  ],
+});
+
+export const BOARD_PATTERNS: PaperPattern[] = [
+  cbseBoard("cbse-10-maths", "CBSE Class 10 Mathematics board paper (80 marks)", { b: 5, c: 6, d: 4 }),
+  cbseBoard("cbse-10-science", "CBSE Class 10 Science board paper (80 marks)", { b: 6, c: 7, d: 3 }),
+  cbseBoard("cbse-12-maths", "CBSE Class 12 Mathematics board paper (80 marks)", { b: 5, c: 6, d: 4 }),
+  {
+    id: "unit-test-40",
+    name: "Unit test (40 marks)",
+    timeLimitMinutes: 90,
+    sections: [
+      { title: "Section A", instructions: "Choose the correct option.", type: "mcq", count: 10, marks: 1 },
+      { title: "Section B", instructions: "Answer briefly.", type: "short", count: 5, marks: 2 },
+      { title: "Section C", instructions: "Show all working.", type: "numerical", count: 4, marks: 3 },
+      { title: "Section D", instructions: "Answer in detail.", type: "long", count: 2, marks: 4 },
+    ],
+  },
+  {
+    id: "mcq-quiz-20",
+    name: "Weekly MCQ quiz (20 marks)",
+    timeLimitMinutes: 30,
+    sections: [{ title: "Multiple Choice Questions", instructions: "Each question carries 1 mark. There is no negative marking.", type: "mcq", count: 20, marks: 1 }],
+  },
+];
+
+// A form with a pattern asks for what the pattern adds up to
+export function withPatternTotals(form: FormState): FormState {
+  const pattern = form.pattern;
+  if (!pattern) return form;
+  const counts = Object.fromEntries(
+    QUESTION_TYPES.map((t) => [t, pattern.sections.filter((s) => s.type === t).reduce((n, s) => n + s.count, 0)]),
+  ) as Record<QuestionType, number>;
+  return { ...form, counts, totalMarks: pattern.sections.reduce((n, s) => n + s.count * s.marks, 0) };
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Titles, instructions and marks are the pattern's, whatever the model wrote. Runs before
+// validation; sections the pattern doesn't have are left for patternIssues to report.
+export function applyPattern(value: unknown, pattern: PaperPattern): unknown {
+  if (!isObject(value) || !isObject(value.structure) || !Array.isArray(value.structure.sections)) return value;
+  const sections = value.structure.sections.map((sec: unknown, si: number) => {
+    const p = pattern.sections[si];
+    if (!p || !isObject(sec)) return sec;
+    const questions = Array.isArray(sec.questions) ? sec.questions.map((q: unknown) => (isObject(q) ? { ...q, marks: p.marks } : q)) : sec.questions;
+    return { ...sec, title: p.title, instructions: p.instructions, questions };
+  });
+  return { ...value, structure: { ...value.structure, sections } };
+}
+
+// Where a paper's sections differ from the pattern: how many there are, and the number and
+// type of questions in each
+export function patternIssues(sections: Array<{ questions: Array<{ type: QuestionType }> }>, pattern: PaperPattern): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  if (sections.length !== pattern.sections.length) {
+    issues.push({ path: "structure.sections", message: `expected exactly ${pattern.sections.length} sections (${pattern.sections.map((s) => s.title).join(", ")}), got ${sections.length}` });
+  }
+  pattern.sections.forEach((p, si) => {
+    const sec = sections[si];
+    if (!sec) return;
+    const path = `structure.sections[${si}].questions`;
+    if (sec.questions.length !== p.count) issues.push({ path, message: `${p.title} must have exactly ${p.count} questions, got ${sec.questions.length}` });
+    sec.questions.forEach((q, qi) => {
+      if (q.type !== p.type) issues.push({ path: `${path}[${qi}].type`, message: `${p.title} holds only "${p.type}" questions` });
+    });
+  });
+  return issues;
+}
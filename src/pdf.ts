@@ -0,0 +1,109 @@
+// QPaper Forge — PDF exports
+// The browser side of the PDF pipeline: loads jsPDF (bundled, but split out and only fetched
+// on the first export), embeds the fonts, rasterizes the formulas, then lets pdfRender.ts
+// draw and saves the file.
+
+import type { jsPDF } from 'jspdf';
+import type { BilingualLayout, PaperJSON } from './schema.ts';
+import { type MathImages, mathKey, paperTexts } from './pdfText.ts';
+import { PDF_FONT, embedFonts, loadScriptFonts } from './fonts.ts';
+import { renderMath, splitMath } from './math.ts';
+import { type PdfContext, renderAnswerKey, renderPaper, renderSetsAnswerKey } from './pdfRender.ts';
+import { type PdfTemplate, instructionLines } from './templates.ts';
+
+// Formulas are rasterized at this many pixels per ex: sharp in print at the sizes we use
+const PX_PER_EX = 40;
+// MathJax sizes formulas in ex of the surrounding font; for Noto Sans that is about half its size
+const EM_PER_EX = 0.5;
+
+async function svgToPng(svg: string, width: number, height: number): Promise<string> {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.ceil(width));
+    canvas.height = Math.max(1, Math.ceil(height));
+    canvas.getContext("2d")!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/png");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Renders every formula in these texts to a PNG, sized in em of the text around it.
+// The Word export (docx.ts) places the same images.
+export async function rasterizeMath(texts: string[]): Promise<MathImages> {
+  const images: MathImages = new Map();
+  for (const text of texts) {
+    for (const seg of splitMath(text)) {
+      if (seg.kind !== "math") continue;
+      const key = mathKey(seg.tex, seg.display);
+      if (images.has(key)) continue;
+      const r = await renderMath(seg.tex, seg.display);
+      const png = await svgToPng(r.svg, r.widthEx * PX_PER_EX, r.heightEx * PX_PER_EX);
+      const ascent = (r.heightEx - r.depthEx) * EM_PER_EX;
+      const descent = r.depthEx * EM_PER_EX;
+      images.set(key, { key, png, width: r.widthEx * EM_PER_EX, ascent, descent, inkAscent: ascent, inkDescent: descent });
+    }
+  }
+  return images;
+}
+
+// Loads the script fonts and renders the formulas these texts need, so that layout can
+// stay synchronous. Called once per export with everything it will write.
+async function prepareText(texts: string[]): Promise<MathImages> {
+  await loadScriptFonts(texts);
+  return rasterizeMath(texts);
+}
+
+// Null when jsPDF, the fonts or the formulas couldn't be loaded; the user has already been told
+async function createContext(texts: string[]): Promise<PdfContext | null> {
+  let doc: jsPDF;
+  try {
+    const { jsPDF } = await import("jspdf");
+    doc = new jsPDF({ unit: "pt", format: "a4" });
+  } catch (e) {
+    console.error(e);
+    alert("Failed to load PDF library. Please try again.");
+    return null;
+  }
+  try {
+    await embedFonts(doc);
+  } catch (e) {
+    console.error(e);
+    alert("Failed to load PDF fonts. Please try again.");
+    return null;
+  }
+  try {
+    return { doc, images: await prepareText(texts), font: PDF_FONT };
+  } catch (e) {
+    console.error(e);
+    alert("Failed to load script fonts or render formulas for the PDF. Please try again.");
+    return null;
+  }
+}
+
+const fileName = (docTitle: string, suffix = "") => `${docTitle.replace(/\s+/g, "_")}${suffix}.pdf`;
+
+export async function exportToPDF(docTitle: string, paper: PaperJSON, template: PdfTemplate, layout: BilingualLayout) {
+  const ctx = await createContext([docTitle, ...paperTexts(paper), template.schoolName, template.schoolAddress, ...instructionLines(template)]);
+  if (!ctx) return;
+  renderPaper(ctx, docTitle, paper, template, layout);
+  ctx.doc.save(fileName(docTitle, paper.metadata.setCode ? `_Set_${paper.metadata.setCode}` : ""));
+}
+
+export async function exportAnswerKeyPDF(docTitle: string, paper: PaperJSON) {
+  const ctx = await createContext([docTitle, ...paperTexts(paper)]);
+  if (!ctx) return;
+  renderAnswerKey(ctx, docTitle, paper);
+  ctx.doc.save(fileName(docTitle, "_answer_key"));
+}
+
+export async function exportSetsAnswerKeyPDF(docTitle: string, master: PaperJSON, sets: PaperJSON[]) {
+  const ctx = await createContext([docTitle, ...paperTexts(master)]);
+  if (!ctx) return;
+  renderSetsAnswerKey(ctx, docTitle, master, sets);
+  ctx.doc.save(fileName(docTitle, "_sets_answer_key"));
+}
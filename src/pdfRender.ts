@@ -0,0 +1,369 @@
+// QPaper Forge — PDF render pipeline
+// Draws papers and answer keys into a jsPDF document. Nothing here touches the DOM or the
+// network: the caller hands over a document with its fonts embedded and the formula images
+// already rasterized (see pdf.ts for the browser side), so the same code runs headless in Node.
+
+import type { jsPDF } from 'jspdf';
+import { type BilingualLayout, type PaperJSON, mcqAnswerIndex, optionLetter } from './schema.ts';
+import { type MathImages, drawRichLine, layoutRichText, writeRichText } from './pdfText.ts';
+import { type PdfTemplate, DEFAULT_TEMPLATE, instructionLines } from './templates.ts';
+import { setPlacements } from './sets.ts';
+
+export type PdfContext = {
+  doc: jsPDF;
+  images: MathImages;
+  font: string; // embedded font family to write with, e.g. PDF_FONT from fonts.ts
+};
+
+// Laid out like a board paper, following `template` (see templates.ts). Bilingual papers print
+// each translation after its original (interleaved) or beside it (columns).
+export function renderPaper(ctx: PdfContext, docTitle: string, paper: PaperJSON, template: PdfTemplate = DEFAULT_TEMPLATE, layout: BilingualLayout = "interleaved") {
+  const { doc, images, font } = ctx;
+  const instructions = instructionLines(template);
+
+  const marginX = 48;
+  let y = 64;
+  const width = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const lineHeight = 18;
+  // Question numbers sit left of the text, marks (if in the margin) right of it
+  const textX = marginX + 32;
+  const contentRight = width - marginX - (template.marksInMargin ? 40 : 0);
+
+  const addPageIfNeeded = (needed: number) => {
+    if (y + needed > pageHeight - 64) {
+      doc.addPage();
+      y = 64;
+    }
+  };
+
+  // Text that may contain formulas or Indic scripts, wrapped by width. `onFirstLine` draws
+  // whatever belongs beside the first line (number, marks) on the page that line landed on.
+  const writeRich = (text: string, x: number, right = contentRight, onFirstLine?: (baseline: number) => void) => {
+    layoutRichText(doc, text, right - x, images).forEach((ln, i) => {
+      addPageIfNeeded(lineHeight + ln.above + ln.below);
+      y += ln.above;
+      drawRichLine(doc, ln, x, y);
+      if (i === 0) onFirstLine?.(y);
+      y += lineHeight + ln.below;
+    });
+  };
+
+  // Original on the left, translation on the right, row by row so a page break keeps them level
+  const writeColumns = (left: string, right: string, x: number, onFirstLine?: (baseline: number) => void) => {
+    const gutter = 18;
+    const colWidth = (contentRight - x - gutter) / 2;
+    const leftLines = layoutRichText(doc, left, colWidth, images);
+    const rightLines = layoutRichText(doc, right, colWidth, images);
+    for (let i = 0; i < Math.max(leftLines.length, rightLines.length); i++) {
+      const l = leftLines[i];
+      const r = rightLines[i];
+      const above = Math.max(l?.above ?? 0, r?.above ?? 0);
+      const below = Math.max(l?.below ?? 0, r?.below ?? 0);
+      addPageIfNeeded(lineHeight + above + below);
+      y += above;
+      if (l) drawRichLine(doc, l, x, y);
+      if (r) drawRichLine(doc, r, x + colWidth + gutter, y);
+      if (i === 0) onFirstLine?.(y);
+      y += lineHeight + below;
+    }
+  };
+
+  const writeCentered = (text: string) => {
+    y = writeRichText(doc, text, width / 2, y, images, "center");
+  };
+
+  // Header: logo on the left, school and paper title centred
+  const logoHeight = 56;
+  if (template.logo) {
+    const { png, width: w, height: h } = template.logo;
+    doc.addImage(png, "PNG", marginX, y - 24, (w / h) * logoHeight, logoHeight);
+  }
+  const headerTop = y;
+  if (template.schoolName) {
+    doc.setFont(font, "bold");
+    doc.setFontSize(16);
+    writeCentered(template.schoolName);
+    y += 18;
+  }
+  if (template.schoolAddress) {
+    doc.setFont(font, "normal");
+    doc.setFontSize(10);
+    writeCentered(template.schoolAddress);
+    y += 18;
+  }
+  doc.setFont(font, "bold");
+  doc.setFontSize(template.schoolName ? 14 : 18);
+  writeCentered(docTitle);
+  if (paper.metadata.setCode) {
+    const code = `SET ${paper.metadata.setCode}`;
+    const codeWidth = doc.getTextWidth(code);
+    doc.text(code, width - marginX - codeWidth, y);
+    doc.rect(width - marginX - codeWidth - 6, y - 16, codeWidth + 12, 22);
+  }
+  y += 24;
+  if (template.logo) y = Math.max(y, headerTop - 24 + logoHeight + 16);
+
+  doc.setFont(font, "normal");
+  doc.setFontSize(11);
+  y = writeRichText(doc, `${paper.metadata.board}  |  ${paper.metadata.grade}  |  ${paper.metadata.subject}  |  ${paper.metadata.topic}`, marginX, y, images) + 16;
+  doc.text(`Time allowed: ${paper.metadata.timeLimitMinutes ?? "—"} minutes`, marginX, y);
+  const maxMarks = `Maximum marks: ${paper.metadata.totalMarks ?? "—"}`;
+  doc.text(maxMarks, width - marginX - doc.getTextWidth(maxMarks), y);
+  y += 8;
+  doc.line(marginX, y, width - marginX, y);
+  y += 24;
+
+  // Candidate details: name on a line to fill in, roll number in one box per digit
+  if (template.candidateName || template.rollNumberBox) {
+    const box = 18;
+    if (template.candidateName) {
+      doc.text("Candidate's name:", marginX, y);
+      const lineStart = marginX + doc.getTextWidth("Candidate's name:") + 6;
+      doc.line(lineStart, y + 2, template.rollNumberBox ? width / 2 : width - marginX, y + 2);
+    }
+    if (template.rollNumberBox) {
+      const boxesX = width - marginX - box * template.rollNumberDigits;
+      doc.text("Roll No.", boxesX - doc.getTextWidth("Roll No.") - 8, y);
+      for (let i = 0; i < template.rollNumberDigits; i++) doc.rect(boxesX + box * i, y - 13, box, box);
+    }
+    y += 28;
+  }
+
+  if (instructions.length) {
+    doc.setFont(font, "bold");
+    doc.setFontSize(11);
+    doc.text("General Instructions:", marginX, y);
+    y += 16;
+    doc.setFont(font, "normal");
+    doc.setFontSize(10);
+    instructions.forEach((line, i) => writeRich(line, marginX + 20, width - marginX, (baseline) => doc.text(`${i + 1}.`, marginX, baseline)));
+    y += 2;
+    doc.line(marginX, y, width - marginX, y);
+    y += 24;
+  }
+
+  // Sections & Questions
+  paper.structure.sections.forEach((sec, si) => {
+    addPageIfNeeded(40);
+    doc.setFont(font, "bold");
+    doc.setFontSize(13);
+    writeCentered(`${si + 1}. ${sec.title}`);
+    y += 22;
+
+    if (sec.instructions) {
+      doc.setFont(font, "italic");
+      doc.setFontSize(11);
+      writeRich(sec.instructions, marginX);
+      y += 4;
+    }
+
+    sec.questions.forEach((q, qi) => {
+      doc.setFont(font, "normal");
+      doc.setFontSize(12);
+      addPageIfNeeded(lineHeight * 2);
+
+      const marksLabel = q.marks ? `[${q.marks}]` : "";
+      const numberAndMarks = (baseline: number) => {
+        doc.setFont(font, "bold");
+        doc.text(`${si + 1}.${qi + 1}`, marginX, baseline);
+        if (template.marksInMargin && marksLabel) doc.text(marksLabel, width - marginX - doc.getTextWidth(marksLabel), baseline);
+        doc.setFont(font, "normal");
+      };
+      const text = !template.marksInMargin && q.marks ? `${q.text} (${q.marks} mark${q.marks === 1 ? "" : "s"})` : q.text;
+
+      const t = q.translation;
+      if (t && layout === "columns") {
+        writeColumns(text, t.text, textX, numberAndMarks);
+      } else {
+        writeRich(text, textX, contentRight, numberAndMarks);
+        if (t) writeRich(t.text, textX);
+      }
+
+      if (q.type === "mcq" && q.options?.length) {
+        q.options.forEach((opt, idx) => {
+          const letter = String.fromCharCode(65 + idx);
+          const translated = t?.options?.[idx];
+          if (translated === undefined) writeRich(`${letter}. ${opt}`, textX + 12);
+          else if (layout === "columns") writeColumns(`${letter}. ${opt}`, `${letter}. ${translated}`, textX + 12);
+          else {
+            writeRich(`${letter}. ${opt}`, textX + 12);
+            writeRich(translated, textX + 30);
+          }
+        });
+      } else if (template.answerSpace !== "none") {
+        // Room to answer on the paper itself, in proportion to the marks
+        const ruleGap = 22;
+        doc.setDrawColor(170);
+        for (let i = 0; i < Math.max(1, q.marks ?? 1) * template.linesPerMark; i++) {
+          addPageIfNeeded(ruleGap);
+          if (template.answerSpace === "lines") doc.line(textX, y + 4, contentRight, y + 4);
+          y += ruleGap;
+        }
+        doc.setDrawColor(0);
+      }
+
+      y += 10;
+    });
+
+    y += 8;
+  });
+
+  // Footer, written last so every page knows the page count
+  const pageCount = doc.getNumberOfPages();
+  doc.setFont(font, "normal");
+  doc.setFontSize(9);
+  if (template.pageNumbers) {
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      const label = `Page ${page} of ${pageCount}`;
+      doc.text(label, (width - doc.getTextWidth(label)) / 2, pageHeight - 28);
+    }
+  }
+  doc.setPage(pageCount);
+  const footer = `Generated by QPaper Forge • ${new Date().toLocaleString()}`;
+  doc.text(footer, width - doc.getTextWidth(footer) - marginX, pageHeight - 14);
+}
+
+// Separate PDF for the examiner: correct MCQ letters, model answers and step-wise marks,
+// numbered exactly like the question paper
+export function renderAnswerKey(ctx: PdfContext, docTitle: string, paper: PaperJSON) {
+  const { doc, images, font } = ctx;
+
+  const marginX = 48;
+  let y = 64;
+  const width = doc.internal.pageSize.getWidth();
+  const lineHeight = 16;
+
+  const addPageIfNeeded = (needed: number) => {
+    const pageHeight = doc.internal.pageSize.getHeight();
+    if (y + needed > pageHeight - 64) {
+      doc.addPage();
+      y = 64;
+    }
+  };
+
+  // Returns the baseline of the first line, for anything aligned with it
+  const writeLines = (text: string, x: number, rightGap = 0) => {
+    let first: number | null = null;
+    for (const ln of layoutRichText(doc, text, width - marginX - rightGap - x, images)) {
+      addPageIfNeeded(lineHeight + ln.above + ln.below);
+      y += ln.above;
+      first ??= y;
+      drawRichLine(doc, ln, x, y);
+      y += lineHeight + ln.below;
+    }
+    return first ?? y;
+  };
+
+  // Header
+  doc.setFont(font, "bold");
+  doc.setFontSize(18);
+  doc.text("Answer Key / Marking Scheme", marginX, y);
+  y += 22;
+  doc.setFontSize(12);
+  doc.setFont(font, "normal");
+  y = writeRichText(doc, docTitle, marginX, y, images) + 16;
+  doc.setFontSize(11);
+  y = writeRichText(doc, `Board: ${paper.metadata.board}  |  Grade: ${paper.metadata.grade}  |  Marks: ${paper.metadata.totalMarks ?? "—"}`, marginX, y, images) + 24;
+
+  paper.structure.sections.forEach((sec, si) => {
+    addPageIfNeeded(40);
+    doc.setFont(font, "bold");
+    doc.setFontSize(14);
+    y = writeRichText(doc, `${si + 1}. ${sec.title}`, marginX, y, images) + 20;
+
+    sec.questions.forEach((q, qi) => {
+      const qLabel = `${si + 1}.${qi + 1}`;
+      addPageIfNeeded(lineHeight * 2);
+      doc.setFont(font, "bold");
+      doc.setFontSize(12);
+      doc.text(`${qLabel})`, marginX, y);
+      if (q.marks) {
+        const marks = `[${q.marks} mark${q.marks === 1 ? "" : "s"}]`;
+        doc.text(marks, width - marginX - doc.getTextWidth(marks), y);
+      }
+
+      doc.setFont(font, "normal");
+      doc.setFontSize(11);
+      // Written on the label's line, so the label and the start of the answer stay together
+      const mcqIdx = mcqAnswerIndex(q);
+      const answer = mcqIdx !== null ? `${optionLetter(mcqIdx)}. ${q.options?.[mcqIdx] ?? ""}` : q.answer || "—";
+      writeLines(answer, marginX + 36, 48);
+      const translated = mcqIdx !== null ? q.translation?.options?.[mcqIdx] : q.translation?.answer;
+      if (translated) writeLines(mcqIdx !== null ? `${optionLetter(mcqIdx)}. ${translated}` : translated, marginX + 36, 48);
+
+      // Step-wise allocation, marks right-aligned
+      q.markingScheme?.forEach((st) => {
+        const marks = `${st.marks}`;
+        const firstLine = writeLines(`• ${st.step}`, marginX + 48, 24);
+        doc.text(marks, width - marginX - doc.getTextWidth(marks), firstLine);
+      });
+
+      y += 6;
+    });
+
+    y += 8;
+  });
+}
+
+// One key for all sets: a row per master question, showing where it sits in each set and
+// the correct MCQ letter there; written answers are the same in every set so appear once
+export function renderSetsAnswerKey(ctx: PdfContext, docTitle: string, master: PaperJSON, sets: PaperJSON[]) {
+  const { doc, images, font } = ctx;
+
+  const marginX = 48;
+  let y = 64;
+  const width = doc.internal.pageSize.getWidth();
+  const lineHeight = 16;
+  const labelCol = 44;
+  const setCol = 64;
+  const answerX = marginX + labelCol + setCol * sets.length;
+  const placements = sets.map(setPlacements);
+
+  const header = () => {
+    doc.setFont(font, "bold");
+    doc.setFontSize(10);
+    doc.text("Master", marginX, y);
+    sets.forEach((set, i) => doc.text(`Set ${set.metadata.setCode}`, marginX + labelCol + setCol * i, y));
+    doc.text("Answer", answerX, y);
+    y += 6;
+    doc.line(marginX, y, width - marginX, y);
+    y += lineHeight;
+    doc.setFont(font, "normal");
+  };
+
+  doc.setFont(font, "bold");
+  doc.setFontSize(18);
+  doc.text("Answer Key — All Sets", marginX, y);
+  y += 22;
+  doc.setFontSize(12);
+  doc.setFont(font, "normal");
+  y = writeRichText(doc, docTitle, marginX, y, images) + 28;
+  header();
+
+  master.structure.sections.forEach((sec, si) =>
+    sec.questions.forEach((q, qi) => {
+      const answerLines = mcqAnswerIndex(q) !== null ? [] : layoutRichText(doc, q.answer || "—", width - marginX - answerX, images);
+      const rowHeight = Math.max(lineHeight, answerLines.reduce((h, ln) => h + lineHeight + ln.above + ln.below, 0));
+      if (y + rowHeight > doc.internal.pageSize.getHeight() - 64) {
+        doc.addPage();
+        y = 64;
+        header();
+      }
+      const rowY = y + (answerLines[0]?.above ?? 0);
+      doc.text(`${si + 1}.${qi + 1}`, marginX, rowY);
+      placements.forEach((pl, i) => {
+        const at = pl.get(q.id);
+        doc.text(at ? `${at.label}${at.answer ? ` (${at.answer})` : ""}` : "—", marginX + labelCol + setCol * i, rowY);
+      });
+      let lineY = y;
+      for (const ln of answerLines) {
+        lineY += ln.above;
+        drawRichLine(doc, ln, answerX, lineY);
+        lineY += lineHeight + ln.below;
+      }
+      y += rowHeight + 4;
+    }),
+  );
+}
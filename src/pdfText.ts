@@ -0,0 +1,198 @@
+// QPaper Forge — text layout for the PDF exports
+// jsPDF can only write strings in an embedded font, so two kinds of runs become images:
+// formulas (see math.ts), rasterized once per export by pdf.ts, and words in Indic scripts,
+// drawn by the browser's text shaper (see fonts.ts). Everything else is real text. Lines are
+// broken by measured width, never by character count.
+
+import type { jsPDF } from 'jspdf';
+import type { PaperJSON } from './schema.ts';
+import { splitMath } from './math.ts';
+import { FALLBACK_FAMILY, scriptFontFor } from './scripts.ts';
+
+// Script words are drawn at this pixel size: sharp in print at the sizes we use
+const WORD_PX = 48;
+
+// Sizes are in em, i.e. multiples of the font size the image is drawn at
+export type PdfImage = {
+  key: string; // also the jsPDF image alias, so repeated words are embedded once
+  png: string;
+  width: number;
+  ascent: number; // from the baseline to the top of the image
+  descent: number; // from the baseline to the bottom of the image
+  inkAscent: number; // how far it really reaches, for line spacing
+  inkDescent: number;
+};
+
+export type MathImages = Map<string, PdfImage>;
+
+type RichItem =
+  | { kind: "word"; text: string; x: number }
+  | { kind: "image"; image: PdfImage; x: number; fontSize: number };
+
+export type RichLine = {
+  items: RichItem[];
+  width: number;
+  // Room needed beyond the normal line height for tall formulas and script words
+  above: number;
+  below: number;
+};
+
+// Formulas are looked up by this key in MathImages
+export const mathKey = (tex: string, display: boolean) => `${display ? "D" : "I"}${tex}`;
+
+// -------------- Script words --------------
+const wordCache = new Map<string, PdfImage>();
+
+// Synchronous once loadScriptFonts (fonts.ts) has run for this text. Needs a canvas, so
+// headless renders stick to Latin text.
+function shapedWord(doc: jsPDF, word: string, family: string): PdfImage {
+  const bold = doc.getFont().fontStyle.includes("bold");
+  const key = `W${bold ? "B" : "R"}${word}`;
+  const cached = wordCache.get(key);
+  if (cached) return cached;
+
+  const font = `${bold ? 700 : 400} ${WORD_PX}px "${family}", "${FALLBACK_FAMILY}"`;
+  const canvas = document.createElement("canvas");
+  let ctx = canvas.getContext("2d")!;
+  ctx.font = font;
+  const m = ctx.measureText(word);
+  const ascent = m.fontBoundingBoxAscent;
+  const descent = m.fontBoundingBoxDescent;
+  canvas.width = Math.max(1, Math.ceil(m.width));
+  canvas.height = Math.max(1, Math.ceil(ascent + descent));
+  // Resizing resets the context
+  ctx = canvas.getContext("2d")!;
+  ctx.font = font;
+  ctx.fillStyle = "#000";
+  ctx.fillText(word, 0, ascent);
+
+  const image: PdfImage = {
+    key,
+    png: canvas.toDataURL("image/png"),
+    width: canvas.width / WORD_PX,
+    ascent: ascent / WORD_PX,
+    descent: descent / WORD_PX,
+    inkAscent: m.actualBoundingBoxAscent / WORD_PX,
+    inkDescent: m.actualBoundingBoxDescent / WORD_PX,
+  };
+  wordCache.set(key, image);
+  return image;
+}
+
+// -------------- Texts --------------
+
+// Every string of a paper that ends up in a PDF
+export function paperTexts(paper: PaperJSON): string[] {
+  const { board, grade, subject, topic } = paper.metadata;
+  return [
+    board,
+    grade,
+    subject,
+    topic,
+    ...paper.structure.sections.flatMap((sec) => [
+      sec.title,
+      sec.instructions ?? "",
+      ...sec.questions.flatMap((q) => [
+        q.text,
+        ...(q.options ?? []),
+        q.answer ?? "",
+        ...(q.markingScheme ?? []).map((st) => st.step),
+        q.translation?.text ?? "",
+        ...(q.translation?.options ?? []),
+        q.translation?.answer ?? "",
+      ]),
+    ]),
+  ];
+}
+
+// -------------- Layout --------------
+
+// Breaks text into lines no wider than maxWidth using the document's current font and size.
+// Newlines are kept, display formulas get a line of their own and are centred.
+export function layoutRichText(doc: jsPDF, text: string, maxWidth: number, images: MathImages): RichLine[] {
+  const fontSize = doc.getFontSize();
+  const space = doc.getTextWidth(" ");
+  const lines: RichLine[] = [];
+  let line: RichLine = { items: [], width: 0, above: 0, below: 0 };
+  let pendingSpaces = 0;
+
+  const breakLine = () => {
+    lines.push(line);
+    line = { items: [], width: 0, above: 0, below: 0 };
+    pendingSpaces = 0;
+  };
+
+  // Words and images are placed the same way: wrap if they don't fit after the spaces
+  const place = (width: number, item: (x: number) => RichItem) => {
+    let gap = line.items.length ? pendingSpaces * space : 0;
+    if (line.items.length && line.width + gap + width > maxWidth) {
+      breakLine();
+      gap = 0;
+    }
+    line.items.push(item(line.width + gap));
+    line.width += gap + width;
+    pendingSpaces = 0;
+  };
+
+  const placeImage = (image: PdfImage) => {
+    place(image.width * fontSize, (x) => ({ kind: "image", image, x, fontSize }));
+    line.above = Math.max(line.above, (image.inkAscent - 1) * fontSize);
+    line.below = Math.max(line.below, (image.inkDescent - 0.3) * fontSize);
+  };
+
+  for (const seg of splitMath(text)) {
+    if (seg.kind === "text") {
+      for (const token of seg.value.match(/\S+|\s+/g) ?? []) {
+        if (/^\s/.test(token)) {
+          if (token.includes("\n")) breakLine();
+          else pendingSpaces = token.length;
+          continue;
+        }
+        const script = scriptFontFor(token);
+        if (script) placeImage(shapedWord(doc, token, script.family));
+        else place(doc.getTextWidth(token), (x) => ({ kind: "word", text: token, x }));
+      }
+      continue;
+    }
+
+    const math = images.get(mathKey(seg.tex, seg.display));
+    if (!math) {
+      // Not prepared (shouldn't happen): fall back to the TeX source
+      place(doc.getTextWidth(seg.tex), (x) => ({ kind: "word", text: seg.tex, x }));
+      continue;
+    }
+    if (seg.display) {
+      if (line.items.length) breakLine();
+      if (Number.isFinite(maxWidth)) line.width = Math.max(0, (maxWidth - math.width * fontSize) / 2);
+    }
+    placeImage(math);
+    if (seg.display) breakLine();
+  }
+  if (line.items.length || !lines.length) lines.push(line);
+  return lines;
+}
+
+// `baseline` is where doc.text would put a plain line
+export function drawRichLine(doc: jsPDF, line: RichLine, x: number, baseline: number) {
+  for (const item of line.items) {
+    if (item.kind === "word") {
+      doc.text(item.text, x + item.x, baseline);
+    } else {
+      const { image, fontSize } = item;
+      doc.addImage(image.png, "PNG", x + item.x, baseline - image.ascent * fontSize, image.width * fontSize, (image.ascent + image.descent) * fontSize, image.key);
+    }
+  }
+}
+
+// For headings and labels, which are never wrapped. A newline or display formula still starts
+// a new line, one font line height (plus room for tall items) below the last. With "center",
+// each line is centred on x. Returns the baseline of the last line.
+export function writeRichText(doc: jsPDF, text: string, x: number, baseline: number, images: MathImages, align: "left" | "center" = "left"): number {
+  const step = doc.getFontSize() * doc.getLineHeightFactor();
+  const lines = layoutRichText(doc, text, Infinity, images);
+  lines.forEach((line, i) => {
+    if (i > 0) baseline += lines[i - 1].below + step + line.above;
+    drawRichLine(doc, line, align === "center" ? x - line.width / 2 : x, baseline);
+  });
+  return baseline;
+}
@@ -0,0 +1,56 @@
+// QPaper Forge — exam presets
+// A named copy of the Exam Details form (board, subject, counts, difficulty, units, pattern
+// and the rest), so a teacher who sets the same kind of paper every term picks it from a list
+// instead of filling the form in again. Kept in Firestore beside the PDF templates.
+
+import {
+  type Firestore,
+  type Unsubscribe,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+import type { FormState } from './schema.ts';
+import { APP_ID } from './library.ts';
+
+export type SavedPreset = { id: string; name: string; form: FormState; updatedAt: Date };
+
+// -------------- Firestore --------------
+// Private per user: artifacts/{appId}/users/{uid}/presets/{presetId}
+const presetsCollection = (db: Firestore, userId: string) => collection(db, "artifacts", APP_ID, "users", userId, "presets");
+
+// Returns the id straight away; like the library, writes are queued while offline
+export function createPreset(db: Firestore, userId: string, name: string, form: FormState): { id: string; written: Promise<void> } {
+  const ref = doc(presetsCollection(db, userId));
+  return { id: ref.id, written: setDoc(ref, { name, form, updatedAt: serverTimestamp() }) };
+}
+
+export function updatePreset(db: Firestore, userId: string, id: string, form: FormState) {
+  return updateDoc(doc(presetsCollection(db, userId), id), { form, updatedAt: serverTimestamp() });
+}
+
+export function deletePreset(db: Firestore, userId: string, id: string) {
+  return deleteDoc(doc(presetsCollection(db, userId), id));
+}
+
+// Forms are stored as they were saved; App fills in fields added since from its defaults
+export function subscribePresets(
+  db: Firestore,
+  userId: string,
+  onChange: (presets: SavedPreset[]) => void,
+  onError: (error: Error) => void,
+): Unsubscribe {
+  const q = query(presetsCollection(db, userId), orderBy("updatedAt", "desc"));
+  return onSnapshot(q, (snap) => {
+    onChange(snap.docs.map((d) => {
+      const data = d.data({ serverTimestamps: "estimate" });
+      return { id: d.id, name: data.name, form: data.form, updatedAt: data.updatedAt?.toDate() ?? new Date() };
+    }));
+  }, onError);
+}
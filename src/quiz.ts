@@ -0,0 +1,250 @@
+// QPaper Forge — online quizzes
+// A paper published as a timed test that students take in the browser (QuizTaker.tsx), from
+// a link with ?quiz={id}. Students only ever read a copy without answers or marking schemes:
+// the full paper stays with the teacher, and responses are graded when the teacher opens the
+// results. MCQ and numerical questions are graded automatically; written answers are kept
+// for the teacher to mark by hand.
+//
+// Public:  artifacts/{appId}/public/data/quizzes/{quizId}, owned by `ownerId`
+//          artifacts/{appId}/public/data/quizzes/{quizId}/responses/{studentUid}
+// Private: artifacts/{appId}/users/{uid}/quizzes/{quizId}, the paper with its answers
+// firestore.rules enforces the time limit: a student starts once, at the server's time, and
+// can save or submit only until the deadline. Only the quiz owner reads other responses.
+
+import {
+  type DocumentData,
+  type Firestore,
+  type Timestamp,
+  type Unsubscribe,
+  FieldPath,
+  collection,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+import { type PaperJSON, type Question, type QuestionType, mcqAnswerIndex, optionLetter } from './schema.ts';
+import { DEFAULT_TYPE_MARKS } from './blueprint.ts';
+import { APP_ID } from './library.ts';
+
+// Papers without a time limit of their own
+export const DEFAULT_QUIZ_MINUTES = 60;
+// Saves this long after the deadline still count, since the student's clock may lag the
+// server's. firestore.rules allows the same 30 seconds.
+const LATE_GRACE_MS = 30_000;
+
+export type QuizAnswers = Record<string, string>; // question id → option letter for MCQs, otherwise what was typed
+
+// What students see
+export type Quiz = { id: string; ownerId: string; title: string; paper: PaperJSON; timeLimitMinutes: number; open: boolean };
+
+// The teacher's copy, with answers
+export type SavedQuiz = { id: string; title: string; paper: PaperJSON; timeLimitMinutes: number; open: boolean; createdAt: Date };
+
+export type QuizResponse = {
+  id: string;
+  name: string;
+  answers: QuizAnswers;
+  answeredAt: Record<string, Date>; // when each answer was last saved, by the server's clock
+  startedAt: Date;
+  submittedAt: Date | null;
+};
+
+// When saving stops for a response, grace included
+export const responseDeadline = (r: Pick<QuizResponse, "startedAt">, timeLimitMinutes: number) =>
+  new Date(r.startedAt.getTime() + timeLimitMinutes * 60_000 + LATE_GRACE_MS);
+
+export const quizLink = (id: string) => `${window.location.origin}${window.location.pathname}?quiz=${encodeURIComponent(id)}`;
+
+// Answers and marking schemes are dropped (Firestore skips the undefined fields)
+export function studentCopy(paper: PaperJSON): PaperJSON {
+  const strip = (q: Question): Question => ({
+    ...q,
+    answer: undefined,
+    markingScheme: undefined,
+    translation: q.translation && { ...q.translation, answer: undefined },
+  });
+  return { ...paper, structure: { sections: paper.structure.sections.map((s) => ({ ...s, questions: s.questions.map(strip) })) } };
+}
+
+// -------------- Grading --------------
+
+// Digits grouped in thousands ("1,200,000") or the Indian way, in lakhs and crores ("12,00,000")
+const NUMBER_RE = /([-+]?(?:\d{1,3}(?:,\d{3})+|\d{1,2}(?:,\d{2})+,\d{3}|\d+)(?:\.\d+)?|[-+]?\.\d+)(?:\s*\/\s*(\d+(?:\.\d+)?)|\s*(?:[eE]|(?:×|\\times|\*|x)\s*10\s*\^\s*\{?)\s*([-+]?\d+)\}?)?/;
+
+// LaTeX fractions of plain numbers read as a/b; any other fraction ("\frac{x}{2}") makes
+// the text unreadable rather than read as its first number
+const FRAC_RE = /\\[dt]?frac\s*\{\s*([-+]?\d+(?:\.\d+)?)\s*\}\s*\{\s*(\d+(?:\.\d+)?)\s*\}/g;
+
+// The first number in `text`: "12.5 m/s", "-3/4", "$\frac{3}{4}$", "1.5 × 10^3", "2e-4",
+// "1,200" or "1,20,000"
+export function parseNumber(text: string): number | null {
+  const plain = text.replace(/[−–]/g, "-").replace(FRAC_RE, "$1/$2");
+  if (/\\[dt]?frac/.test(plain)) return null;
+  const m = NUMBER_RE.exec(plain);
+  if (!m) return null;
+  let value = Number(m[1].replace(/,/g, ""));
+  if (m[2]) value /= Number(m[2]);
+  if (m[3]) value *= 10 ** Number(m[3]);
+  return Number.isFinite(value) ? value : null;
+}
+
+// A worked answer ends with its result ("v = u + at = 0 + 2 × 5 = 10 m/s"), so only what
+// follows the last "=" counts
+export function numericAnswer(q: Question): number | null {
+  if (q.type !== "numerical" || !q.answer) return null;
+  const parts = q.answer.split("=");
+  return parseNumber(parts[parts.length - 1]) ?? parseNumber(q.answer);
+}
+
+// Within 1%, so rounding to a sensible number of places is still right
+const close = (got: number, expected: number) => Math.abs(got - expected) <= Math.max(1e-9, Math.abs(expected) * 0.01);
+
+// null when the question can't be graded automatically: written answers, and MCQ or
+// numerical questions whose answer couldn't be read
+export function gradeAnswer(q: Question, given: string | undefined): boolean | null {
+  if (q.type === "mcq") {
+    const idx = mcqAnswerIndex(q);
+    if (idx === null) return null;
+    return given?.trim().toUpperCase() === optionLetter(idx);
+  }
+  const expected = numericAnswer(q);
+  if (expected === null) return null;
+  const got = given ? parseNumber(given) : null;
+  return got !== null && close(got, expected);
+}
+
+export type QuizResults = {
+  outOf: number; // marks of the questions graded automatically
+  students: Array<{ id: string; name: string; score: number; answered: number; submittedAt: Date | null; status: "submitted" | "timed out" | "in progress" }>;
+  questions: Array<{ id: string; label: string; type: QuestionType; gradable: boolean; correct: number; answered: number; submitted: number }>;
+};
+
+// Only answers saved by the deadline count, whatever reached Firestore later
+function answersInTime(r: QuizResponse, timeLimitMinutes: number): QuizAnswers {
+  const deadline = responseDeadline(r, timeLimitMinutes).getTime();
+  return Object.fromEntries(Object.entries(r.answers).filter(([id]) => (r.answeredAt[id]?.getTime() ?? 0) <= deadline));
+}
+
+// Scores per student, best first, and how many students got each question right. Responses
+// count as finished once submitted or once their time is up; only those count towards
+// question accuracy.
+export function quizResults(paper: PaperJSON, responses: QuizResponse[], timeLimitMinutes: number, now = new Date()): QuizResults {
+  const all = paper.structure.sections.flatMap((s) => s.questions);
+  const marks = (q: Question) => q.marks ?? DEFAULT_TYPE_MARKS[q.type];
+  const gradable = all.filter((q) => gradeAnswer(q, undefined) !== null);
+  const graded = responses.map((r) => {
+    const status: QuizResults["students"][number]["status"] = r.submittedAt ? "submitted" : now > responseDeadline(r, timeLimitMinutes) ? "timed out" : "in progress";
+    return { r, answers: answersInTime(r, timeLimitMinutes), status };
+  });
+  const finished = graded.filter((g) => g.status !== "in progress");
+
+  const students = graded
+    .map(({ r, answers, status }) => ({
+      id: r.id,
+      name: r.name,
+      score: gradable.reduce((n, q) => n + (gradeAnswer(q, answers[q.id]) ? marks(q) : 0), 0),
+      answered: all.filter((q) => answers[q.id]?.trim()).length,
+      submittedAt: r.submittedAt,
+      status,
+    }))
+    .sort((a, b) => Number(b.status !== "in progress") - Number(a.status !== "in progress") || b.score - a.score || a.name.localeCompare(b.name));
+
+  const questions = all.map((q, i) => ({
+    id: q.id,
+    label: `Q${i + 1}`,
+    type: q.type,
+    gradable: gradable.includes(q),
+    correct: finished.filter((g) => gradeAnswer(q, g.answers[q.id])).length,
+    answered: finished.filter((g) => g.answers[q.id]?.trim()).length,
+    submitted: finished.length,
+  }));
+
+  return { outOf: gradable.reduce((n, q) => n + marks(q), 0), students, questions };
+}
+
+// -------------- Firestore --------------
+const quizzesCollection = (db: Firestore) => collection(db, "artifacts", APP_ID, "public", "data", "quizzes");
+const ownQuizzesCollection = (db: Firestore, userId: string) => collection(db, "artifacts", APP_ID, "users", userId, "quizzes");
+const responseDoc = (db: Firestore, quizId: string, userId: string) => doc(quizzesCollection(db), quizId, "responses", userId);
+
+// Returns the id straight away; like the library, writes are queued while offline
+export function publishQuiz(db: Firestore, userId: string, title: string, paper: PaperJSON): { id: string; written: Promise<void> } {
+  const ref = doc(quizzesCollection(db));
+  const timeLimitMinutes = paper.metadata.timeLimitMinutes ?? DEFAULT_QUIZ_MINUTES;
+  const written = Promise.all([
+    setDoc(ref, { ownerId: userId, title, paper: studentCopy(paper), timeLimitMinutes, open: true, createdAt: serverTimestamp() }),
+    setDoc(doc(ownQuizzesCollection(db, userId), ref.id), { title, paper, timeLimitMinutes, open: true, createdAt: serverTimestamp() }),
+  ]);
+  return { id: ref.id, written: written.then(() => undefined) };
+}
+
+// A closed quiz can't be started; attempts already under way can still be submitted
+export async function setQuizOpen(db: Firestore, userId: string, id: string, open: boolean) {
+  await Promise.all([updateDoc(doc(quizzesCollection(db), id), { open }), updateDoc(doc(ownQuizzesCollection(db, userId), id), { open })]);
+}
+
+export function subscribeOwnQuizzes(db: Firestore, userId: string, onChange: (quizzes: SavedQuiz[]) => void, onError: (error: Error) => void): Unsubscribe {
+  const q = query(ownQuizzesCollection(db, userId), orderBy("createdAt", "desc"));
+  return onSnapshot(q, (snap) => {
+    onChange(snap.docs.map((d) => {
+      const data = d.data({ serverTimestamps: "estimate" });
+      return { id: d.id, title: data.title, paper: data.paper, timeLimitMinutes: data.timeLimitMinutes, open: data.open, createdAt: data.createdAt?.toDate() ?? new Date() };
+    }));
+  }, onError);
+}
+
+// null once loaded if there is no such quiz
+export function subscribeQuiz(db: Firestore, id: string, onChange: (quiz: Quiz | null) => void, onError: (error: Error) => void): Unsubscribe {
+  return onSnapshot(doc(quizzesCollection(db), id), (snap) => {
+    const data = snap.data();
+    onChange(data ? { id: snap.id, ownerId: data.ownerId, title: data.title, paper: data.paper, timeLimitMinutes: data.timeLimitMinutes, open: data.open } : null);
+  }, onError);
+}
+
+const toResponse = (id: string, data: DocumentData): QuizResponse => ({
+  id,
+  name: data.name,
+  answers: data.answers ?? {},
+  answeredAt: Object.fromEntries(Object.entries(data.answeredAt ?? {}).map(([qid, t]) => [qid, (t as Timestamp | null)?.toDate() ?? new Date()])),
+  startedAt: data.startedAt?.toDate() ?? new Date(),
+  submittedAt: data.submittedAt?.toDate() ?? null,
+});
+
+export function subscribeResponses(db: Firestore, quizId: string, onChange: (responses: QuizResponse[]) => void, onError: (error: Error) => void): Unsubscribe {
+  return onSnapshot(collection(doc(quizzesCollection(db), quizId), "responses"), (snap) => {
+    onChange(snap.docs.map((d) => toResponse(d.id, d.data({ serverTimestamps: "estimate" }))));
+  }, onError);
+}
+
+// The signed-in student's own attempt, or null before they start
+export function subscribeResponse(db: Firestore, quizId: string, userId: string, onChange: (response: QuizResponse | null) => void, onError: (error: Error) => void): Unsubscribe {
+  return onSnapshot(responseDoc(db, quizId, userId), (snap) => {
+    const data = snap.data({ serverTimestamps: "estimate" });
+    onChange(data ? toResponse(snap.id, data) : null);
+  }, onError);
+}
+
+// The countdown runs from startedAt, so reloading the page doesn't restart it. The rules
+// only allow this once per student.
+export function startAttempt(db: Firestore, quizId: string, userId: string, name: string) {
+  return setDoc(responseDoc(db, quizId, userId), { name, answers: {}, answeredAt: {}, startedAt: serverTimestamp(), submittedAt: null });
+}
+
+// Writes only the answers in `changed`, each stamped with the server's time
+function answerFields(changed: QuizAnswers): unknown[] {
+  return Object.entries(changed).flatMap(([qid, value]) => [new FieldPath("answers", qid), value, new FieldPath("answeredAt", qid), serverTimestamp()]);
+}
+
+export function saveAnswers(db: Firestore, quizId: string, userId: string, changed: QuizAnswers) {
+  const [field, value, ...more] = answerFields(changed);
+  if (!field) return Promise.resolve();
+  return updateDoc(responseDoc(db, quizId, userId), field as FieldPath, value, ...more);
+}
+
+export function submitAttempt(db: Firestore, quizId: string, userId: string, changed: QuizAnswers) {
+  return updateDoc(responseDoc(db, quizId, userId), new FieldPath("submittedAt"), serverTimestamp(), ...answerFields(changed));
+}
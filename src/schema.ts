@@ -0,0 +1,425 @@
+// QPaper Forge — paper schema and runtime validation
+// The model is asked for this exact shape, but nothing guarantees it. Everything that
+// comes back from /api/generate goes through validatePaper before it reaches the UI.
+
+// -------------- Types --------------
+export const QUESTION_TYPES = ["mcq", "short", "long", "numerical"] as const;
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+export const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+// Bloom's taxonomy, lowest to highest
+export const COGNITIVE_LEVELS = ["remember", "understand", "apply", "analyse", "evaluate", "create"] as const;
+export type CognitiveLevel = (typeof COGNITIVE_LEVELS)[number];
+
+export type Question = {
+  id: string;
+  type: QuestionType;
+  text: string;
+  options?: string[]; // for MCQ
+  answer?: string;
+  marks?: number;
+  difficulty?: Difficulty;
+  markingScheme?: MarkingStep[]; // step-wise marks, mainly for long and numerical questions
+  translation?: Translation; // bilingual papers only
+  unit?: string; // the blueprint unit it belongs to, on papers planned by unit (FormState.units)
+  cognitiveLevel?: CognitiveLevel;
+  competencyBased?: boolean; // case-, source- or real-life-based, as boards count them
+};
+
+// The same question in the paper's second language (metadata.secondLanguage). Options are
+// in the same order, so an MCQ's answer letter holds for both versions.
+export type Translation = {
+  text: string;
+  options?: string[];
+  answer?: string;
+};
+
+// A question kept for reuse (see bank.ts). `id` is the bank's own id, unique across papers.
+export type BankQuestion = Question & {
+  board: string;
+  grade: string;
+  subject: string;
+  topic: string;
+  usageCount: number; // papers it has been assembled into
+};
+
+export type MarkingStep = {
+  step: string; // what the examiner looks for
+  marks: number;
+};
+
+export type PaperJSON = {
+  metadata: {
+    board: string; // e.g., CBSE/State/ICSE/Generic
+    grade: string; // e.g., Class 12
+    subject: string; // e.g., Mathematics
+    topic: string; // e.g., Integrals
+    timeLimitMinutes?: number;
+    totalMarks?: number;
+    language?: string; // e.g., English/Hindi
+    secondLanguage?: string; // set on bilingual papers; every question then has a translation
+    version: string; // prompt template version the paper was generated with (api/_prompt.ts)
+    seed?: number;
+    setCode?: string; // e.g., "B" for a shuffled variant (see sets.ts)
+    syllabus?: string; // catalogue the chapters' learning outcomes came from, e.g., "CBSE 2025-26" (see syllabus.ts)
+  };
+  structure: {
+    sections: Array<{
+      title: string;
+      instructions?: string;
+      questions: Question[];
+    }>;
+  };
+};
+
+// The generation request as filled in on the Exam Details form
+export type FormState = {
+  board: string;
+  grade: string;
+  subject: string;
+  topic: string;
+  timeLimitMinutes: number;
+  totalMarks: number;
+  language: string;
+  secondLanguage?: string; // bilingual paper when set (and different from language)
+  difficulty: Difficulty;
+  counts: Record<QuestionType, number>;
+  units?: BlueprintUnit[]; // when set, topic, counts and totalMarks are their totals (see withUnitTotals)
+  pattern?: PaperPattern; // when set, the paper's sections; counts and totalMarks follow from it (see patterns.ts)
+  cognitiveTargets?: CognitiveTargets;
+  extraInstructions?: string;
+};
+
+// Share of the paper's marks the model should aim for at each cognitive level, and for
+// competency-based questions, in percent
+export type CognitiveTargets = {
+  levels: Record<CognitiveLevel, number>;
+  competencyBased: number;
+};
+
+export const DEFAULT_COGNITIVE_TARGETS: CognitiveTargets = {
+  levels: { remember: 20, understand: 30, apply: 30, analyse: 10, evaluate: 5, create: 5 },
+  competencyBased: 50,
+};
+
+// One chapter or unit of a paper planned by unit, with the weightage the board gives it
+export type BlueprintUnit = {
+  name: string; // e.g., Calculus
+  marks: number;
+  counts: Record<QuestionType, number>;
+  difficulty: Record<Difficulty, number>; // share of the unit's questions, in percent
+};
+
+// A board's paper layout: the exact sections, in order, each with one type of question at a
+// fixed number of marks. Built-in patterns are in patterns.ts.
+export type PaperPattern = {
+  id: string;
+  name: string;
+  timeLimitMinutes: number;
+  sections: PatternSection[];
+};
+
+export type PatternSection = {
+  title: string;
+  instructions?: string;
+  type: QuestionType;
+  count: number;
+  marks: number; // per question
+};
+
+export const DEFAULT_DIFFICULTY_SPLIT: Record<Difficulty, number> = { easy: 30, medium: 50, hard: 20 };
+
+// A form planned by unit asks for exactly what its units add up to, so the rest of the app
+// (blueprint check, fixes, prompts) can keep reading topic, counts and totalMarks
+export function withUnitTotals(form: FormState): FormState {
+  const units = form.units;
+  if (!units?.length) return form;
+  const counts = Object.fromEntries(QUESTION_TYPES.map((t) => [t, units.reduce((n, u) => n + u.counts[t], 0)])) as Record<QuestionType, number>;
+  return {
+    ...form,
+    topic: units.map((u) => u.name).join(", "),
+    counts,
+    totalMarks: units.reduce((n, u) => n + u.marks, 0),
+  };
+}
+
+// Units are told apart by name, in the prompt and in each question's `unit`, so every unit
+// needs one and no two may share it (ignoring case and surrounding spaces). Keyed by unit index.
+export function unitNameIssues(units: BlueprintUnit[]): Map<number, string> {
+  const issues = new Map<number, string>();
+  const seen = new Set<string>();
+  units.forEach((u, i) => {
+    const key = u.name.trim().toLowerCase();
+    if (!key) issues.set(i, "Give this unit a name.");
+    else if (seen.has(key)) issues.set(i, `Another unit is already called "${u.name.trim()}".`);
+    seen.add(key);
+  });
+  return issues;
+}
+
+// Every script used here has a bundled PDF font (src/fonts.ts)
+export const LANGUAGES = ["English", "Hindi", "Marathi", "Bengali", "Tamil", "Telugu", "Gujarati", "Kannada", "Malayalam", "Punjabi"] as const;
+
+// How a bilingual paper is shown and printed: each question followed by its translation,
+// or the two languages side by side
+export const BILINGUAL_LAYOUTS = ["interleaved", "columns"] as const;
+export type BilingualLayout = (typeof BILINGUAL_LAYOUTS)[number];
+
+// -------------- Generation requests --------------
+// What the frontend posts to /api/generate. The server validates and clamps these, and
+// builds the actual prompt from them (api/_prompt.ts), so clients can't send free-form prompts.
+export type GenerationRequest =
+  | { kind: "paper"; form: FormState }
+  // Only the questions a paper is short of
+  | { kind: "fill"; form: FormState; paper: PaperJSON; missing: Partial<Record<QuestionType, number>> }
+  // One question, in place, fitting the same slot; `avoid` lists questions from other papers it must not resemble
+  | { kind: "replace"; form: FormState; paper: PaperJSON; sectionIndex: number; questionIndex: number; avoid?: string[] }
+  // An existing paper as plain text, to be structured without changing its questions (see importPaper.ts)
+  | { kind: "import"; text: string }
+  // The same request again, with what was wrong with the previous answer
+  | { kind: "repair"; original: Exclude<GenerationRequest, { kind: "repair" }>; previousOutput: string; issues: SchemaIssue[] };
+
+// Longest pasted paper the server will structure; longer ones have to be read by parsePaperText
+export const MAX_IMPORT_CHARS = 12000;
+
+// -------------- Validation --------------
+export type SchemaIssue = {
+  path: string; // e.g., structure.sections[0].questions[2].options
+  message: string;
+};
+
+export type Checked<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: SchemaIssue[] };
+
+const MCQ_OPTION_COUNT = 4;
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === "string" && v.trim().length > 0;
+
+const isPositiveNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v) && v > 0;
+
+// Walks the whole tree and reports every violation instead of stopping at the first one,
+// so the repair prompt can ask the model to fix everything in one go.
+export function validatePaper(input: unknown): Checked<PaperJSON> {
+  const issues: SchemaIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isObject(input)) {
+    return { ok: false, issues: [{ path: "$", message: "expected a JSON object" }] };
+  }
+
+  // Metadata
+  const meta = input.metadata;
+  if (!isObject(meta)) {
+    issue("metadata", "expected an object");
+  } else {
+    for (const key of ["board", "grade", "subject", "topic", "version"] as const) {
+      if (typeof meta[key] !== "string") issue(`metadata.${key}`, "expected a string");
+    }
+    for (const key of ["timeLimitMinutes", "totalMarks"] as const) {
+      if (meta[key] !== undefined && !isPositiveNumber(meta[key])) issue(`metadata.${key}`, "expected a positive number");
+    }
+    if (meta.language !== undefined && typeof meta.language !== "string") issue("metadata.language", "expected a string");
+    if (meta.secondLanguage !== undefined && typeof meta.secondLanguage !== "string") issue("metadata.secondLanguage", "expected a string");
+    if (meta.seed !== undefined && typeof meta.seed !== "number") issue("metadata.seed", "expected a number");
+    if (meta.setCode !== undefined && typeof meta.setCode !== "string") issue("metadata.setCode", "expected a string");
+    if (meta.syllabus !== undefined && typeof meta.syllabus !== "string") issue("metadata.syllabus", "expected a string");
+  }
+
+  // Structure
+  const structure = input.structure;
+  if (!isObject(structure)) {
+    issue("structure", "expected an object");
+    return { ok: false, issues };
+  }
+  if (!Array.isArray(structure.sections) || structure.sections.length === 0) {
+    issue("structure.sections", "expected a non-empty array of sections");
+    return { ok: false, issues };
+  }
+
+  const seenIds = new Map<string, string>();
+  structure.sections.forEach((sec: unknown, si: number) => {
+    const secPath = `structure.sections[${si}]`;
+    if (!isObject(sec)) {
+      issue(secPath, "expected an object");
+      return;
+    }
+    if (!isNonEmptyString(sec.title)) issue(`${secPath}.title`, "expected a non-empty string");
+    if (sec.instructions !== undefined && typeof sec.instructions !== "string") issue(`${secPath}.instructions`, "expected a string");
+    if (!Array.isArray(sec.questions) || sec.questions.length === 0) {
+      issue(`${secPath}.questions`, "expected a non-empty array of questions");
+      return;
+    }
+
+    sec.questions.forEach((q: unknown, qi: number) => checkQuestion(q, `${secPath}.questions[${qi}]`, issue, seenIds));
+  });
+
+  return issues.length ? { ok: false, issues } : { ok: true, value: input as PaperJSON };
+}
+
+function checkQuestion(q: unknown, qPath: string, issue: (path: string, message: string) => void, seenIds: Map<string, string>) {
+  if (!isObject(q)) {
+    issue(qPath, "expected an object");
+    return;
+  }
+
+  if (!isNonEmptyString(q.id)) {
+    issue(`${qPath}.id`, "expected a non-empty string");
+  } else if (seenIds.has(q.id)) {
+    issue(`${qPath}.id`, `duplicate id "${q.id}" (already used at ${seenIds.get(q.id)})`);
+  } else {
+    seenIds.set(q.id, qPath);
+  }
+
+  if (!QUESTION_TYPES.includes(q.type as QuestionType)) {
+    issue(`${qPath}.type`, `unknown type ${JSON.stringify(q.type)}; expected one of ${QUESTION_TYPES.join(", ")}`);
+  }
+  if (!isNonEmptyString(q.text)) issue(`${qPath}.text`, "expected a non-empty string");
+
+  if (q.type === "mcq") {
+    if (!Array.isArray(q.options) || q.options.length !== MCQ_OPTION_COUNT) {
+      issue(`${qPath}.options`, `MCQ must have exactly ${MCQ_OPTION_COUNT} options`);
+    } else {
+      q.options.forEach((opt: unknown, oi: number) => {
+        if (!isNonEmptyString(opt)) issue(`${qPath}.options[${oi}]`, "expected a non-empty string");
+      });
+    }
+  } else if (q.options !== undefined && !Array.isArray(q.options)) {
+    issue(`${qPath}.options`, "expected an array of strings");
+  }
+
+  if (q.answer !== undefined && typeof q.answer !== "string") issue(`${qPath}.answer`, "expected a string");
+  if (q.unit !== undefined && typeof q.unit !== "string") issue(`${qPath}.unit`, "expected a string");
+  if (q.cognitiveLevel !== undefined && !COGNITIVE_LEVELS.includes(q.cognitiveLevel as CognitiveLevel)) {
+    issue(`${qPath}.cognitiveLevel`, `expected one of ${COGNITIVE_LEVELS.join(", ")}`);
+  }
+  if (q.competencyBased !== undefined && typeof q.competencyBased !== "boolean") issue(`${qPath}.competencyBased`, "expected a boolean");
+  if (q.marks !== undefined && !isPositiveNumber(q.marks)) issue(`${qPath}.marks`, `expected a positive number, got ${JSON.stringify(q.marks)}`);
+  if (q.difficulty !== undefined && !DIFFICULTIES.includes(q.difficulty as Difficulty)) {
+    issue(`${qPath}.difficulty`, `expected one of ${DIFFICULTIES.join(", ")}`);
+  }
+
+  if (q.markingScheme !== undefined) {
+    if (!Array.isArray(q.markingScheme)) {
+      issue(`${qPath}.markingScheme`, "expected an array of { step, marks }");
+    } else {
+      let total = 0;
+      q.markingScheme.forEach((st: unknown, i: number) => {
+        const stPath = `${qPath}.markingScheme[${i}]`;
+        if (!isObject(st)) {
+          issue(stPath, "expected an object");
+          return;
+        }
+        if (!isNonEmptyString(st.step)) issue(`${stPath}.step`, "expected a non-empty string");
+        if (!isPositiveNumber(st.marks)) issue(`${stPath}.marks`, "expected a positive number");
+        else total += st.marks;
+      });
+      if (isPositiveNumber(q.marks) && total > 0 && total !== q.marks) {
+        issue(`${qPath}.markingScheme`, `steps add up to ${total} marks but the question carries ${q.marks}`);
+      }
+    }
+  }
+
+  if (q.translation !== undefined) {
+    const t = q.translation;
+    const tPath = `${qPath}.translation`;
+    if (!isObject(t)) {
+      issue(tPath, "expected an object { text, options?, answer? }");
+    } else {
+      if (!isNonEmptyString(t.text)) issue(`${tPath}.text`, "expected a non-empty string");
+      if (Array.isArray(q.options)) {
+        if (!Array.isArray(t.options) || t.options.length !== q.options.length) {
+          issue(`${tPath}.options`, `expected ${q.options.length} translated options, in the same order`);
+        } else {
+          t.options.forEach((opt: unknown, oi: number) => {
+            if (!isNonEmptyString(opt)) issue(`${tPath}.options[${oi}]`, "expected a non-empty string");
+          });
+        }
+      }
+      if (t.answer !== undefined && typeof t.answer !== "string") issue(`${tPath}.answer`, "expected a string");
+    }
+  }
+}
+
+// Bilingual papers need both versions of every question; validatePaper alone allows them to be missing
+export function missingTranslations(questions: Array<{ q: Question; path: string }>): SchemaIssue[] {
+  return questions
+    .filter(({ q }) => !q.translation)
+    .map(({ path }) => ({ path: `${path}.translation`, message: "missing; this is a bilingual paper" }));
+}
+
+// On papers planned by unit every question must name one of the units
+export function unitIssues(questions: Array<{ q: Question; path: string }>, units: BlueprintUnit[]): SchemaIssue[] {
+  const names = units.map((u) => u.name);
+  return questions
+    .filter(({ q }) => !names.includes(q.unit ?? ""))
+    .map(({ q, path }) => ({ path: `${path}.unit`, message: `${q.unit ? `unknown unit ${JSON.stringify(q.unit)}` : "missing"}; expected one of ${names.map((n) => JSON.stringify(n)).join(", ")}` }));
+}
+
+// With cognitive targets, every question needs a level for the distribution to be measured
+export function missingLevels(questions: Array<{ q: Question; path: string }>): SchemaIssue[] {
+  return questions
+    .filter(({ q }) => !q.cognitiveLevel)
+    .map(({ path }) => ({ path: `${path}.cognitiveLevel`, message: `missing; expected one of ${COGNITIVE_LEVELS.join(", ")}` }));
+}
+
+// The correct option of an MCQ as a letter (A–D). Models answer with "B", "(b)", "B. 42" or the
+// option text itself, so all of those are accepted. Returns null when it can't be worked out.
+export function mcqAnswerIndex(q: Question): number | null {
+  if (q.type !== "mcq" || !q.options?.length || !q.answer) return null;
+  const norm = (t: string) => t.trim().toLowerCase().replace(/\s+/g, " ");
+  const answer = norm(q.answer);
+  const byText = q.options.findIndex((o) => norm(o) === answer);
+  if (byText >= 0) return byText;
+  const letter = /^\(?([a-z])\)?(?:[.):\s]|$)/.exec(answer);
+  if (letter) {
+    const idx = letter[1].charCodeAt(0) - 97;
+    if (idx < q.options.length) return idx;
+  }
+  return null;
+}
+
+export const optionLetter = (idx: number) => String.fromCharCode(65 + idx);
+
+// Validates a `{ "questions": [...] }` response, for partial generations that add to an
+// existing paper. Ids already used in that paper count as duplicates.
+export function validateQuestionList(input: unknown, takenIds: Iterable<string> = []): Checked<Question[]> {
+  const issues: SchemaIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isObject(input) || !Array.isArray(input.questions) || input.questions.length === 0) {
+    return { ok: false, issues: [{ path: "questions", message: "expected a non-empty array of questions" }] };
+  }
+
+  const seenIds = new Map<string, string>();
+  for (const id of takenIds) seenIds.set(id, "the existing paper");
+  input.questions.forEach((q: unknown, qi: number) => checkQuestion(q, `questions[${qi}]`, issue, seenIds));
+
+  return issues.length ? { ok: false, issues } : { ok: true, value: input.questions as Question[] };
+}
+
+// Parses raw model output; a JSON syntax error is reported like any other issue.
+// `prepare` runs between parsing and validation (e.g. to backfill metadata).
+export function parsePaper(raw: string, prepare: (value: unknown) => unknown = (v) => v): Checked<PaperJSON> {
+  const parsed = parseJSON(raw);
+  return parsed.ok ? validatePaper(prepare(parsed.value)) : parsed;
+}
+
+export function parseJSON(raw: string): Checked<unknown> {
+  try {
+    return { ok: true, value: JSON.parse(raw) };
+  } catch (e) {
+    return { ok: false, issues: [{ path: "$", message: `not valid JSON (${(e as Error).message})` }] };
+  }
+}
+
+export function formatIssues(issues: SchemaIssue[], max = 8): string {
+  const shown = issues.slice(0, max).map((i) => `${i.path}: ${i.message}`);
+  if (issues.length > max) shown.push(`…and ${issues.length - max} more`);
+  return shown.join("\n");
+}
@@ -0,0 +1,21 @@
+// QPaper Forge — Indic scripts in PDF text
+// Words in these scripts are drawn by the browser's text shaper rather than written as PDF
+// text (see fonts.ts and pdfText.ts). Each script has its own Noto family.
+
+// Unicode script names, which are also how the Noto families are named
+const SCRIPTS = ["Devanagari", "Bengali", "Tamil", "Telugu", "Gujarati", "Kannada", "Malayalam", "Gurmukhi"] as const;
+export type ScriptFamily = `Noto Sans ${(typeof SCRIPTS)[number]}`;
+
+export type ScriptFont = { family: ScriptFamily; test: RegExp };
+
+const SCRIPT_FONTS: ScriptFont[] = SCRIPTS.map((script) => ({ family: `Noto Sans ${script}`, test: new RegExp(`\\p{Script=${script}}`, "u") }));
+
+// The family used for text around the script, e.g. digits and brackets next to Hindi words
+export const FALLBACK_FAMILY = "Noto Sans";
+
+export const scriptFontFor = (text: string): ScriptFont | null => SCRIPT_FONTS.find((f) => f.test.test(text)) ?? null;
+
+export function scriptsIn(texts: string[]): ScriptFont[] {
+  const joined = texts.join(" ");
+  return SCRIPT_FONTS.filter((f) => f.test.test(joined));
+}
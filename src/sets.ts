@@ -0,0 +1,82 @@
+// QPaper Forge — paper sets (Set A/B/C…)
+// Variants of one paper for neighbouring candidates: questions are shuffled within their
+// section and MCQ options are shuffled with the answer letter remapped. Everything is
+// derived from metadata.seed, so the same paper always yields the same sets.
+
+import { type PaperJSON, type Question, mcqAnswerIndex, optionLetter } from './schema.ts';
+
+export const MAX_SETS = 4;
+
+// Small, fast, seedable PRNG (mulberry32); Math.random can't be replayed
+function prng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fisher–Yates; returns the new order as indexes into `list`
+function shuffledOrder(length: number, rand: () => number): number[] {
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+function shuffleOptions(q: Question, rand: () => number): Question {
+  const correct = mcqAnswerIndex(q);
+  // Without a recognisable answer the options keep their order, so the key stays right
+  if (correct === null || !q.options) return q;
+  const order = shuffledOrder(q.options.length, rand);
+  const answer = optionLetter(order.indexOf(correct));
+  // A translation's options move with the originals; its answer, if any, is the same letter
+  const t = q.translation;
+  const translation = t && {
+    ...t,
+    options: t.options?.length === order.length ? order.map((i) => t.options![i]) : t.options,
+    answer: t.answer !== undefined ? answer : undefined,
+  };
+  return { ...q, options: order.map((i) => q.options![i]), answer, translation };
+}
+
+export function setCode(index: number): string {
+  return optionLetter(index);
+}
+
+// Set `index` (0 = A) of a paper. Question ids are kept, so sets can be matched back to the master.
+export function deriveSet(paper: PaperJSON, index: number): PaperJSON {
+  const rand = prng(((paper.metadata.seed ?? 0) ^ Math.imul(index + 1, 0x9e3779b9)) >>> 0);
+  const sections = paper.structure.sections.map((sec) => ({
+    ...sec,
+    questions: shuffledOrder(sec.questions.length, rand).map((i) => shuffleOptions(sec.questions[i], rand)),
+  }));
+  return {
+    ...paper,
+    metadata: { ...paper.metadata, setCode: setCode(index) },
+    structure: { ...paper.structure, sections },
+  };
+}
+
+export function deriveSets(paper: PaperJSON, count: number): PaperJSON[] {
+  return Array.from({ length: Math.max(1, Math.min(count, MAX_SETS)) }, (_, i) => deriveSet(paper, i));
+}
+
+// Where each master question ended up in a set: question id -> "si.qi" label and answer
+export type SetPlacement = { label: string; answer: string };
+
+export function setPlacements(set: PaperJSON): Map<string, SetPlacement> {
+  const placements = new Map<string, SetPlacement>();
+  set.structure.sections.forEach((sec, si) =>
+    sec.questions.forEach((q, qi) => {
+      const idx = mcqAnswerIndex(q);
+      placements.set(q.id, { label: `${si + 1}.${qi + 1}`, answer: idx !== null ? optionLetter(idx) : "" });
+    }),
+  );
+  return placements;
+}
@@ -0,0 +1,114 @@
+// QPaper Forge — duplicate and near-duplicate questions
+// Runs entirely in the browser: no embeddings, just overlap between normalized texts.
+// Two measures are averaged: word bigrams catch the same phrasing with words swapped in
+// or out, character 4-grams catch small spelling and notation changes (x^2 vs x²).
+
+import type { PaperJSON, Question } from './schema.ts';
+
+// Scores at or above this are flagged; exact repeats (after normalization) score 1
+export const NEAR_DUPLICATE_THRESHOLD = 0.45;
+
+// Saved papers are searched too; this bounds the work for very large libraries
+const MAX_HISTORY_QUESTIONS = 5000;
+
+type Fingerprint = { normalized: string; words: Set<string>; chars: Set<string> };
+
+export type DuplicateMatch = {
+  similarity: number; // 0..1
+  text: string; // the question it resembles
+  // Where that question is: earlier in the same paper, or in a saved paper
+  source: { kind: "paper"; sectionIndex: number; questionIndex: number } | { kind: "history"; paperId: string; title: string };
+};
+
+// Case, punctuation and Unicode compatibility forms (², ﬁ) don't make a question different
+function normalize(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function shingles(items: string[], n: number, join: string): Set<string> {
+  const out = new Set<string>();
+  if (items.length < n) {
+    if (items.length) out.add(items.join(join));
+    return out;
+  }
+  for (let i = 0; i + n <= items.length; i++) out.add(items.slice(i, i + n).join(join));
+  return out;
+}
+
+function fingerprint(text: string): Fingerprint {
+  const normalized = normalize(text);
+  return {
+    normalized,
+    words: shingles(normalized.split(" "), 2, " "),
+    chars: shingles([...normalized], 4, ""),
+  };
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size && !b.size) return 0;
+  let shared = 0;
+  for (const s of a) if (b.has(s)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function similarity(a: Fingerprint, b: Fingerprint): number {
+  if (!a.normalized || !b.normalized) return 0;
+  if (a.normalized === b.normalized) return 1;
+  return (jaccard(a.words, b.words) + jaccard(a.chars, b.chars)) / 2;
+}
+
+export function textSimilarity(a: string, b: string): number {
+  return similarity(fingerprint(a), fingerprint(b));
+}
+
+// Fingerprints of the questions in `history` (the user's other saved papers), built once per
+// library change rather than on every edit of the current paper
+export type HistoryIndex = Array<{ q: Question; fp: Fingerprint; paperId: string; title: string }>;
+
+export function indexHistory(history: Array<{ id: string; title: string; paper: PaperJSON }>): HistoryIndex {
+  const past: HistoryIndex = [];
+  for (const entry of history) {
+    for (const sec of entry.paper.structure.sections) {
+      for (const q of sec.questions) {
+        if (past.length >= MAX_HISTORY_QUESTIONS) return past;
+        past.push({ q, fp: fingerprint(q.text), paperId: entry.id, title: entry.title });
+      }
+    }
+  }
+  return past;
+}
+
+// Flags, by question id, the best match for each question that repeats an earlier question
+// in the same paper or one in `past` (see indexHistory). Within a paper only the later copy
+// is flagged, so replacing it resolves the pair.
+export function findDuplicates(paper: PaperJSON, past: HistoryIndex = []): Map<string, DuplicateMatch> {
+  const found = new Map<string, DuplicateMatch>();
+  const consider = (id: string, match: DuplicateMatch) => {
+    if (match.similarity < NEAR_DUPLICATE_THRESHOLD) return;
+    if ((found.get(id)?.similarity ?? 0) < match.similarity) found.set(id, match);
+  };
+
+  const seen: Array<{ q: Question; fp: Fingerprint; sectionIndex: number; questionIndex: number }> = [];
+  paper.structure.sections.forEach((sec, sectionIndex) => {
+    sec.questions.forEach((q, questionIndex) => {
+      const fp = fingerprint(q.text);
+      for (const prev of seen) {
+        consider(q.id, {
+          similarity: similarity(fp, prev.fp),
+          text: prev.q.text,
+          source: { kind: "paper", sectionIndex: prev.sectionIndex, questionIndex: prev.questionIndex },
+        });
+      }
+      for (const old of past) {
+        consider(q.id, { similarity: similarity(fp, old.fp), text: old.q.text, source: { kind: "history", paperId: old.paperId, title: old.title } });
+      }
+      seen.push({ q, fp, sectionIndex, questionIndex });
+    });
+  });
+  return found;
+}
@@ -0,0 +1,101 @@
+// QPaper Forge — streaming helpers
+// /api/generate answers with server-sent events carrying pieces of the model's JSON.
+// These helpers read that stream and turn the incomplete JSON into something the
+// preview can render while the rest is still arriving.
+
+import { type PaperJSON, type Question, QUESTION_TYPES } from './schema.ts';
+
+// -------------- SSE --------------
+// Calls onEvent for each `event:`/`data:` block; resolves when the stream ends
+export async function readSSE(body: ReadableStream<Uint8Array>, onEvent: (event: string, data: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+    }
+    if (data.length) onEvent(event, data.join("\n"));
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+    blocks.forEach(dispatch);
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
+
+// -------------- Partial JSON --------------
+// Parses the longest complete-looking prefix of a JSON document that is still being
+// written. Cut points are taken just after an opening bracket, just after a closing one,
+// or just before a comma; the open brackets at that point are closed to make it valid.
+// Half-written values are dropped, so a question only shows up once its object is done.
+export function parsePartialJSON(text: string): unknown {
+  const stack: string[] = [];
+  const cuts: Array<{ at: number; closers: string }> = [];
+  const closers = () => [...stack].reverse().join("");
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === "\\") escaped = true;
+      else if (c === '"') inString = false;
+      continue;
+    }
+    if (c === '"') {
+      inString = true;
+    } else if (c === "{" || c === "[") {
+      stack.push(c === "{" ? "}" : "]");
+      cuts.push({ at: i + 1, closers: closers() });
+    } else if (c === "}" || c === "]") {
+      stack.pop();
+      cuts.push({ at: i + 1, closers: closers() });
+    } else if (c === ",") {
+      cuts.push({ at: i, closers: closers() });
+    }
+  }
+
+  for (let k = cuts.length - 1; k >= 0; k--) {
+    try {
+      return JSON.parse(text.slice(0, cuts[k].at) + cuts[k].closers);
+    } catch {
+      // keep backing off to an earlier cut
+    }
+  }
+  return undefined;
+}
+
+// -------------- Draft paper --------------
+// A lenient view of a partial paper for the preview: keeps sections that have a title and
+// questions that have a known type and some text. The final paper is still validated in full.
+export function draftPaper(value: unknown): PaperJSON | null {
+  const obj = value as { metadata?: Partial<PaperJSON["metadata"]>; structure?: { sections?: unknown } } | undefined;
+  if (!obj || typeof obj !== "object" || !Array.isArray(obj.structure?.sections)) return null;
+
+  const sections = (obj.structure.sections as Array<Record<string, unknown>>)
+    .filter((sec) => sec && typeof sec.title === "string")
+    .map((sec) => ({
+      title: sec.title as string,
+      instructions: typeof sec.instructions === "string" ? sec.instructions : undefined,
+      questions: (Array.isArray(sec.questions) ? (sec.questions as Question[]) : []).filter(
+        (q) => q && QUESTION_TYPES.includes(q.type) && typeof q.text === "string",
+      ),
+    }));
+  if (!sections.length) return null;
+
+  return {
+    metadata: { board: "", grade: "", subject: "", topic: "", version: "", ...obj.metadata },
+    structure: { sections },
+  };
+}
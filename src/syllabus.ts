@@ -0,0 +1,64 @@
+// QPaper Forge — syllabus catalogue
+// Boards → grades → subjects → chapters, each chapter with its learning outcomes, from the
+// JSON files in src/syllabus (one per board, stamped with the syllabus year it follows).
+// The Exam Details form picks from these so names are always spelled the same, and the
+// server looks the chosen chapters up again to put their outcomes in the prompt.
+
+import type { FormState } from './schema.ts';
+import cbse from './syllabus/cbse.json';
+import icse from './syllabus/icse.json';
+
+export type Chapter = { name: string; outcomes: string[] };
+export type SyllabusSubject = { subject: string; chapters: Chapter[] };
+export type SyllabusGrade = { grade: string; subjects: SyllabusSubject[] };
+export type BoardSyllabus = { board: string; version: string; grades: SyllabusGrade[] };
+
+export const SYLLABUS: BoardSyllabus[] = [cbse, icse];
+
+const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+type Path = Pick<FormState, "board" | "grade" | "subject">;
+
+function lookup({ board, grade, subject }: Path) {
+  const b = SYLLABUS.find((s) => same(s.board, board));
+  const g = b?.grades.find((x) => same(x.grade, grade));
+  const s = g?.subjects.find((x) => same(x.subject, subject));
+  return { board: b, grade: g, subject: s };
+}
+
+// The choices for each field given the ones above it. A list is empty when the field above
+// holds something the catalogue doesn't have, and the form falls back to free text.
+export function syllabusOptions(path: Path): { boards: string[]; grades: string[]; subjects: string[]; chapters: string[] } {
+  const found = lookup(path);
+  return {
+    boards: SYLLABUS.map((s) => s.board),
+    grades: found.board?.grades.map((g) => g.grade) ?? [],
+    subjects: found.grade?.subjects.map((s) => s.subject) ?? [],
+    chapters: found.subject?.chapters.map((c) => c.name) ?? [],
+  };
+}
+
+// Sets one field and moves the ones below it to their first catalogue option when they no
+// longer fit, so picking a board or grade never leaves a subject from another syllabus behind
+export function cascadeSyllabus(form: FormState, key: "board" | "grade" | "subject", value: string): FormState {
+  const next = { ...form, [key]: value };
+  const order = ["board", "grade", "subject", "topic"] as const;
+  for (const field of order.slice(order.indexOf(key) + 1)) {
+    const options = syllabusOptions(next);
+    const list = { grade: options.grades, subject: options.subjects, topic: options.chapters }[field as "grade" | "subject" | "topic"];
+    if (list.length && !list.some((o) => same(o, next[field]))) next[field] = list[0];
+  }
+  // Units planned by chapter belong to the old subject
+  if (next.units?.length && next.subject !== form.subject) next.units = undefined;
+  return next;
+}
+
+// The catalogue chapters a form asks for, with their outcomes: each unit on a paper planned
+// by unit, otherwise the topic. Names not in the catalogue are simply left out.
+export function chapterOutcomes(form: FormState): { syllabus: string; chapters: Chapter[] } | null {
+  const found = lookup(form);
+  if (!found.board || !found.subject) return null;
+  const names = form.units?.length ? form.units.map((u) => u.name) : [form.topic];
+  const chapters = names.flatMap((n) => found.subject!.chapters.filter((c) => same(c.name, n)));
+  return chapters.length ? { syllabus: `${found.board.board} ${found.board.version}`, chapters } : null;
+}
@@ -0,0 +1,120 @@
+// QPaper Forge — PDF layout templates
+// How a printed paper looks: the school header, general instructions, the candidate's box,
+// where marks go and how much room is left for written answers. A teacher sets this up once
+// and keeps it in Firestore next to the library, to reuse across papers.
+
+import {
+  type Firestore,
+  type Unsubscribe,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+import { APP_ID } from './library.ts';
+
+export const ANSWER_SPACES = ["none", "lines", "blank"] as const;
+export type AnswerSpace = (typeof ANSWER_SPACES)[number];
+
+export type PdfLogo = { png: string; width: number; height: number }; // data URL and its pixel size
+
+export type PdfTemplate = {
+  schoolName: string;
+  schoolAddress: string;
+  logo?: PdfLogo;
+  instructions: string; // one instruction per line, numbered when printed
+  rollNumberBox: boolean;
+  rollNumberDigits: number;
+  candidateName: boolean;
+  marksInMargin: boolean; // right-aligned beside each question, otherwise after its text
+  pageNumbers: boolean;
+  answerSpace: AnswerSpace; // after each written (non-MCQ) question
+  linesPerMark: number;
+};
+
+export type SavedTemplate = { id: string; name: string; template: PdfTemplate; updatedAt: Date };
+
+export const DEFAULT_TEMPLATE: PdfTemplate = {
+  schoolName: "",
+  schoolAddress: "",
+  instructions: [
+    "All questions are compulsory.",
+    "Marks for each question are shown against it.",
+    "Write your roll number on the question paper.",
+  ].join("\n"),
+  rollNumberBox: true,
+  rollNumberDigits: 8,
+  candidateName: false,
+  marksInMargin: true,
+  pageNumbers: true,
+  answerSpace: "none",
+  linesPerMark: 2,
+};
+
+// Logos are stored inside the template document, so they are shrunk to stay well under
+// Firestore's 1 MB document limit
+const MAX_LOGO_PX = 240;
+
+export async function readLogo(file: File): Promise<PdfLogo> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const scale = Math.min(1, MAX_LOGO_PX / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    canvas.getContext("2d")!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return { png: canvas.toDataURL("image/png"), width: canvas.width, height: canvas.height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const instructionLines = (template: PdfTemplate) =>
+  template.instructions.split("\n").map((l) => l.trim()).filter(Boolean);
+
+// -------------- Firestore --------------
+// Private per user: artifacts/{appId}/users/{uid}/templates/{templateId}
+const templatesCollection = (db: Firestore, userId: string) => collection(db, "artifacts", APP_ID, "users", userId, "templates");
+
+// Returns the id straight away; like the library, writes are queued while offline
+export function createTemplate(db: Firestore, userId: string, name: string, template: PdfTemplate): { id: string; written: Promise<void> } {
+  const ref = doc(templatesCollection(db, userId));
+  return { id: ref.id, written: setDoc(ref, { name, template, updatedAt: serverTimestamp() }) };
+}
+
+export function updateTemplate(db: Firestore, userId: string, id: string, template: PdfTemplate) {
+  return updateDoc(doc(templatesCollection(db, userId), id), { template, updatedAt: serverTimestamp() });
+}
+
+export function deleteTemplate(db: Firestore, userId: string, id: string) {
+  return deleteDoc(doc(templatesCollection(db, userId), id));
+}
+
+export function subscribeTemplates(
+  db: Firestore,
+  userId: string,
+  onChange: (templates: SavedTemplate[]) => void,
+  onError: (error: Error) => void,
+): Unsubscribe {
+  const q = query(templatesCollection(db, userId), orderBy("updatedAt", "desc"));
+  return onSnapshot(q, (snap) => {
+    onChange(snap.docs.map((d) => {
+      const data = d.data({ serverTimestamps: "estimate" });
+      return {
+        id: d.id,
+        name: data.name,
+        // Templates saved before a setting existed get its default
+        template: { ...DEFAULT_TEMPLATE, ...data.template },
+        updatedAt: data.updatedAt?.toDate() ?? new Date(),
+      };
+    }));
+  }, onError);
+}